@@ -0,0 +1,725 @@
+/**
+ * PillarChat Components
+ * Unstyled, composable chat primitives built on usePillarChat
+ */
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  type FormEvent,
+  type HTMLAttributes,
+  type KeyboardEvent,
+  type ReactNode,
+} from 'react';
+import { ArticleLink, PillarMarkdown } from './PillarMarkdown';
+import { PillarToolCard } from './PillarToolCard';
+import {
+  usePillarChat,
+  type PillarChatMessage,
+  type PillarFeedbackInput,
+  type UsePillarChatOptions,
+  type UsePillarChatReturn,
+} from './hooks/usePillarChat';
+import { DEFAULT_ATTACHMENT_TYPES, useChatAttachments } from './hooks/useChatAttachments';
+import { useStreamingMessage } from './hooks/useStreamingMessage';
+import { sanitizeUrl } from './utils/markdown';
+
+// ============================================================================
+// Contexts
+// ============================================================================
+
+interface PillarChatContextValue {
+  chat: UsePillarChatReturn;
+  helpCenterUrl?: string;
+}
+
+const PillarChatContext = createContext<PillarChatContextValue | null>(null);
+
+interface MessageContextValue {
+  message: PillarChatMessage;
+  index: number;
+}
+
+const MessageContext = createContext<MessageContextValue | null>(null);
+
+/**
+ * Access the chat of the surrounding `<PillarChat.Root>`, e.g. to build
+ * custom parts next to the primitives.
+ */
+export function usePillarChatContext(): UsePillarChatReturn {
+  const context = useContext(PillarChatContext);
+
+  if (!context) {
+    throw new Error('usePillarChatContext must be used within <PillarChat.Root>');
+  }
+
+  return context.chat;
+}
+
+function useMessageFromContext(
+  message: PillarChatMessage | undefined,
+  component: string,
+): PillarChatMessage {
+  const context = useContext(MessageContext);
+  const resolved = message ?? context?.message;
+
+  if (!resolved) {
+    throw new Error(`${component} needs a message prop or a surrounding <PillarChat.Message>`);
+  }
+
+  return resolved;
+}
+
+// ============================================================================
+// Root
+// ============================================================================
+
+export interface PillarChatRootProps extends HTMLAttributes<HTMLDivElement> {
+  /**
+   * An existing chat from `usePillarChat()`. When omitted, Root creates
+   * one with `options`.
+   */
+  chat?: UsePillarChatReturn;
+
+  /** Options for the chat Root creates when `chat` is not given. */
+  options?: UsePillarChatOptions;
+
+  /** Base URL for help-center article links in `<PillarChat.Sources>`. */
+  helpCenterUrl?: string;
+}
+
+function RootFrame({
+  chat,
+  helpCenterUrl,
+  children,
+  ...props
+}: Omit<PillarChatRootProps, 'chat' | 'options'> & { chat: UsePillarChatReturn }) {
+  return (
+    <PillarChatContext.Provider value={{ chat, helpCenterUrl }}>
+      <div
+        data-pillar-chat=""
+        data-state={chat.isLoading ? 'streaming' : 'idle'}
+        data-online={chat.isOnline}
+        aria-busy={chat.isLoading}
+        {...props}
+      >
+        {children}
+      </div>
+    </PillarChatContext.Provider>
+  );
+}
+
+function RootWithOwnChat({ options, ...props }: Omit<PillarChatRootProps, 'chat'>) {
+  const chat = usePillarChat(options);
+  return <RootFrame chat={chat} {...props} />;
+}
+
+/**
+ * Provides a chat to the other `PillarChat` primitives.
+ *
+ * @example
+ * ```tsx
+ * <PillarChat.Root className="chat">
+ *   <PillarChat.Messages className="chat-log" />
+ *   <PillarChat.Composer placeholder="Ask anything…" />
+ * </PillarChat.Root>
+ * ```
+ */
+function Root({ chat, options, ...props }: PillarChatRootProps): React.ReactElement {
+  return chat ? <RootFrame chat={chat} {...props} /> : <RootWithOwnChat options={options} {...props} />;
+}
+
+// ============================================================================
+// Messages
+// ============================================================================
+
+export interface PillarChatMessagesProps extends Omit<HTMLAttributes<HTMLDivElement>, 'children'> {
+  /**
+   * Render a message. Defaults to `<PillarChat.Message message={message} />`.
+   * Messages an inline_ui card sent with `sendResult` are skipped.
+   */
+  children?: (message: PillarChatMessage, index: number) => ReactNode;
+
+  /** Distance from the bottom, in pixels, that still counts as "at the bottom" (default: 48). */
+  stickThreshold?: number;
+}
+
+/**
+ * The scrollable message log. Stays pinned to the bottom while new content
+ * streams in, unless the user has scrolled up to read earlier messages.
+ */
+function Messages({
+  children,
+  stickThreshold = 48,
+  onScroll,
+  ...props
+}: PillarChatMessagesProps): React.ReactElement {
+  const chat = usePillarChatContext();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const atBottomRef = useRef(true);
+  const [atBottom, setAtBottom] = useState(true);
+
+  const handleScroll = useCallback(
+    (event: React.UIEvent<HTMLDivElement>) => {
+      const el = event.currentTarget;
+      const isAtBottom = el.scrollHeight - el.scrollTop - el.clientHeight <= stickThreshold;
+      atBottomRef.current = isAtBottom;
+      setAtBottom(isAtBottom);
+      onScroll?.(event);
+    },
+    [stickThreshold, onScroll],
+  );
+
+  // Follow content changes (tokens, tool cards, images loading)
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+
+    const stick = () => {
+      if (atBottomRef.current) {
+        el.scrollTop = el.scrollHeight;
+      }
+    };
+
+    stick();
+    const observer = new MutationObserver(stick);
+    observer.observe(el, { childList: true, subtree: true, characterData: true });
+    el.addEventListener('load', stick, true);
+    return () => {
+      observer.disconnect();
+      el.removeEventListener('load', stick, true);
+    };
+  }, []);
+
+  // Messages waiting for a connection follow the thread
+  const thread = chat.outbox.length > 0 ? [...chat.messages, ...chat.outbox] : chat.messages;
+
+  // Sending a message always jumps back to the bottom
+  const lastMessage = thread[thread.length - 1];
+  useEffect(() => {
+    if (lastMessage?.role === 'user') {
+      atBottomRef.current = true;
+      setAtBottom(true);
+    }
+  }, [lastMessage?.id, lastMessage?.role]);
+
+  return (
+    <div
+      ref={containerRef}
+      role="log"
+      aria-live="polite"
+      aria-relevant="additions"
+      data-pillar-chat-messages=""
+      data-at-bottom={atBottom}
+      onScroll={handleScroll}
+      {...props}
+    >
+      {thread.map((message, index) =>
+        // Card replies are shown as their tool call's output
+        message.toolResultFor ? null : children ? (
+          <React.Fragment key={message.id ?? index}>{children(message, index)}</React.Fragment>
+        ) : (
+          <Message key={message.id ?? index} message={message} index={index} />
+        ),
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Message
+// ============================================================================
+
+export interface PillarChatMessageProps extends HTMLAttributes<HTMLDivElement> {
+  message: PillarChatMessage;
+
+  /** Position in the thread (default: looked up in the chat). */
+  index?: number;
+
+  /**
+   * Custom message body. Defaults to progress, tool cards, text, images
+   * and sources. `PillarChat.Sources` and `PillarChat.Progress` inside
+   * read this message automatically.
+   */
+  children?: ReactNode;
+}
+
+/**
+ * One message in the log. Streams its own text through
+ * `useStreamingMessage`, so only this message re-renders per token.
+ */
+function Message({ message, index, children, ...props }: PillarChatMessageProps): React.ReactElement {
+  const chat = usePillarChatContext();
+  const context = useContext(PillarChatContext);
+  const live = useStreamingMessage(message.role === 'assistant' ? message.id : undefined);
+  const resolvedIndex = index ?? chat.messages.indexOf(message);
+  const isLatest = resolvedIndex === chat.messages.length - 1;
+  const isStreaming = Boolean(live?.isStreaming) || (isLatest && chat.isLoading && message.role === 'assistant');
+  const content = live?.content ?? message.content;
+
+  return (
+    <MessageContext.Provider value={{ message, index: resolvedIndex }}>
+      <div
+        role="article"
+        aria-label={message.role === 'user' ? 'You said' : 'Assistant said'}
+        data-pillar-chat-message=""
+        data-role={message.role}
+        data-status={message.status}
+        data-streaming={isStreaming}
+        {...props}
+      >
+        {children ?? (
+          <>
+            {message.role === 'assistant' && <Progress />}
+            {message.toolCalls?.map((part, j) => (
+              <PillarToolCard
+                key={part.toolCallId}
+                part={part}
+                messageIndex={resolvedIndex}
+                segmentIndex={j}
+                isLatest={isLatest}
+                isReady={!chat.isLoading}
+              />
+            ))}
+            {content &&
+              (message.role === 'assistant' ? (
+                <PillarMarkdown
+                  data-pillar-chat-message-content=""
+                  content={content}
+                  sources={message.sources}
+                  isStreaming={isStreaming}
+                  helpCenterUrl={context?.helpCenterUrl}
+                />
+              ) : (
+                <div data-pillar-chat-message-content="">{content}</div>
+              ))}
+            {message.images?.map((image) => (
+              <img key={image.url} src={image.url} alt="" data-pillar-chat-message-image="" />
+            ))}
+            {message.files?.map((file, i) => {
+              // Restored transcripts can carry any URL, e.g. `javascript:`.
+              // Documents read in the browser have none.
+              const href = file.url ? sanitizeUrl(file.url) : null;
+              const key = `${i}:${file.name}`;
+              return href ? (
+                <a
+                  key={key}
+                  href={href}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  data-pillar-chat-message-file=""
+                  data-media-type={file.mediaType}
+                >
+                  {file.name}
+                </a>
+              ) : (
+                <span key={key} data-pillar-chat-message-file="" data-media-type={file.mediaType}>
+                  {file.name}
+                </span>
+              );
+            })}
+            {message.role === 'assistant' && <Sources />}
+          </>
+        )}
+      </div>
+    </MessageContext.Provider>
+  );
+}
+
+// ============================================================================
+// Sources
+// ============================================================================
+
+export interface PillarChatSourcesProps extends HTMLAttributes<HTMLUListElement> {
+  /** Defaults to the surrounding `<PillarChat.Message>`. */
+  message?: PillarChatMessage;
+}
+
+/**
+ * The help-center articles an answer cited. Clicking one opens it in the
+ * Pillar panel; with `helpCenterUrl` on Root, sources are also real links.
+ */
+function Sources({ message, ...props }: PillarChatSourcesProps): React.ReactElement | null {
+  const resolved = useMessageFromContext(message, '<PillarChat.Sources>');
+  const context = useContext(PillarChatContext);
+
+  if (!resolved.sources?.length) return null;
+
+  return (
+    <ul aria-label="Sources" data-pillar-chat-sources="" {...props}>
+      {resolved.sources.map((source) => (
+        <li key={source.id} data-pillar-chat-source="">
+          <ArticleLink source={source} helpCenterUrl={context?.helpCenterUrl}>
+            {source.title}
+          </ArticleLink>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// ============================================================================
+// Progress
+// ============================================================================
+
+export interface PillarChatProgressProps extends HTMLAttributes<HTMLUListElement> {
+  /** Defaults to the surrounding `<PillarChat.Message>`. */
+  message?: PillarChatMessage;
+}
+
+/**
+ * What the agent is doing: thinking, searching, running tools. Each step
+ * has `data-status` (`active`, `done`, `error`) and `data-kind`.
+ */
+function Progress({ message, ...props }: PillarChatProgressProps): React.ReactElement | null {
+  const resolved = useMessageFromContext(message, '<PillarChat.Progress>');
+
+  if (!resolved.progressEvents?.length) return null;
+
+  return (
+    <ul role="status" aria-label="Progress" data-pillar-chat-progress="" {...props}>
+      {resolved.progressEvents.map((event, i) => (
+        <li
+          key={event.id ?? i}
+          data-pillar-chat-progress-step=""
+          data-kind={event.kind}
+          data-status={event.status ?? 'active'}
+        >
+          {event.label ?? (event.kind === 'thinking' ? 'Thinking' : event.kind)}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// ============================================================================
+// Feedback
+// ============================================================================
+
+export interface PillarChatFeedbackProps extends HTMLAttributes<HTMLDivElement> {
+  /** Defaults to the surrounding `<PillarChat.Message>`. */
+  message?: PillarChatMessage;
+
+  /**
+   * Reasons the user can pick after rating, e.g. `['Inaccurate', 'Too long']`.
+   * With tags or `withComment`, the rating is sent when the user sends or
+   * skips the details.
+   */
+  tags?: string[];
+
+  /** Ask for an optional comment after rating. */
+  withComment?: boolean;
+}
+
+/**
+ * Thumbs up/down for an assistant answer, with optional tags and comment.
+ * Hidden on user messages, while the answer is streaming and on answers
+ * without a `serverId`, which Pillar can't match the rating to.
+ */
+function Feedback({
+  message,
+  tags,
+  withComment = false,
+  ...props
+}: PillarChatFeedbackProps): React.ReactElement | null {
+  const chat = usePillarChatContext();
+  const resolved = useMessageFromContext(message, '<PillarChat.Feedback>');
+  const [draft, setDraft] = useState<PillarFeedbackInput | null>(null);
+
+  const isLatest = resolved === chat.messages[chat.messages.length - 1];
+  if (
+    resolved.role !== 'assistant' ||
+    !resolved.id ||
+    !resolved.serverId ||
+    (isLatest && chat.isLoading)
+  ) {
+    return null;
+  }
+
+  const messageId = resolved.id;
+  const feedback = resolved.feedback;
+  const rating = draft?.rating ?? feedback?.rating;
+  const askDetails = withComment || Boolean(tags?.length);
+
+  const submit = (input: PillarFeedbackInput) => {
+    setDraft(null);
+    void chat.submitFeedback(messageId, input);
+  };
+
+  const rate = (value: PillarFeedbackInput['rating']) => {
+    if (askDetails) {
+      setDraft({ rating: value });
+    } else {
+      submit({ rating: value });
+    }
+  };
+
+  const toggleTag = (tag: string) => {
+    setDraft((prev) => {
+      if (!prev) return prev;
+      const current = prev.tags ?? [];
+      return {
+        ...prev,
+        tags: current.includes(tag) ? current.filter((t) => t !== tag) : [...current, tag],
+      };
+    });
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (draft) submit(draft);
+  };
+
+  return (
+    <div
+      role="group"
+      aria-label="Rate this answer"
+      data-pillar-chat-feedback=""
+      data-rating={rating}
+      data-status={feedback?.status}
+      {...props}
+    >
+      <button
+        type="button"
+        aria-label="Helpful"
+        aria-pressed={rating === 'up'}
+        data-pillar-chat-feedback-rating="up"
+        disabled={feedback?.status === 'submitting'}
+        onClick={() => rate('up')}
+      >
+        👍
+      </button>
+      <button
+        type="button"
+        aria-label="Not helpful"
+        aria-pressed={rating === 'down'}
+        data-pillar-chat-feedback-rating="down"
+        disabled={feedback?.status === 'submitting'}
+        onClick={() => rate('down')}
+      >
+        👎
+      </button>
+      {draft && (
+        <form data-pillar-chat-feedback-form="" onSubmit={handleSubmit}>
+          {tags?.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              aria-pressed={Boolean(draft.tags?.includes(tag))}
+              data-pillar-chat-feedback-tag=""
+              onClick={() => toggleTag(tag)}
+            >
+              {tag}
+            </button>
+          ))}
+          {withComment && (
+            <textarea
+              aria-label="Comment"
+              data-pillar-chat-feedback-comment=""
+              rows={2}
+              value={draft.comment ?? ''}
+              placeholder="Tell us more (optional)"
+              onChange={(event) => setDraft({ ...draft, comment: event.target.value })}
+            />
+          )}
+          <button type="button" onClick={() => submit({ rating: draft.rating })}>
+            Skip
+          </button>
+          <button type="submit" data-pillar-chat-feedback-submit="">
+            Send feedback
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Composer
+// ============================================================================
+
+export interface PillarChatComposerProps
+  extends Omit<HTMLAttributes<HTMLFormElement>, 'onSubmit'> {
+  /** Placeholder for the text area. */
+  placeholder?: string;
+
+  /** Accept attachments from the attach button, paste and drop (default: true). */
+  allowImages?: boolean;
+
+  /**
+   * MIME types that can be attached (default: PNG, JPEG, GIF and WebP).
+   * Add `DOCUMENT_ATTACHMENT_TYPES` to accept PDFs, CSVs and text files.
+   */
+  accept?: string[];
+
+  /** Disable input, e.g. while the user is signed out. */
+  disabled?: boolean;
+}
+
+/**
+ * Text input with submit, stop and image-attach buttons.
+ * Enter sends; Shift+Enter inserts a new line.
+ */
+function Composer({
+  placeholder = 'Type a message…',
+  allowImages = true,
+  accept = DEFAULT_ATTACHMENT_TYPES,
+  disabled = false,
+  ...props
+}: PillarChatComposerProps): React.ReactElement {
+  const chat = usePillarChatContext();
+  const [text, setText] = useState('');
+  const attachments = useChatAttachments({
+    chat,
+    accept,
+    onError: (err) => console.warn('[Pillar] Attachment failed:', err),
+  });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { isUploading } = attachments;
+
+  const canSend =
+    !disabled &&
+    !chat.isLoading &&
+    !isUploading &&
+    (text.trim() !== '' || attachments.images.length > 0 || attachments.files.length > 0);
+
+  const submit = useCallback(() => {
+    if (!canSend) return;
+    const message = text.trim();
+    const attached = attachments.take();
+    setText('');
+    const hasAttachments = attached.images.length > 0 || attached.files.length > 0;
+    void chat.sendMessage(message, hasAttachments ? attached : undefined);
+  }, [canSend, text, attachments, chat]);
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    submit();
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    // Don't submit while an IME composition is being confirmed
+    if (event.key === 'Enter' && !event.shiftKey && !event.nativeEvent.isComposing) {
+      event.preventDefault();
+      submit();
+    }
+  };
+
+  const handleFiles = (files: FileList | null) => {
+    attachments.addFiles(files);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  return (
+    <form
+      data-pillar-chat-composer=""
+      data-disabled={disabled}
+      data-uploading={isUploading}
+      data-dragging={allowImages && attachments.isDragging}
+      onSubmit={handleSubmit}
+      {...(allowImages && !disabled ? attachments.dropzoneProps : {})}
+      {...props}
+    >
+      {attachments.attachments.length > 0 && (
+        <ul aria-label="Attachments" data-pillar-chat-attachments="">
+          {attachments.attachments.map((attachment) => (
+            <li
+              key={attachment.id}
+              data-pillar-chat-attachment=""
+              data-status={attachment.status}
+              title={attachment.error?.message}
+            >
+              {attachment.file.type.startsWith('image/') ? (
+                <img src={attachment.previewUrl} alt={attachment.file.name} />
+              ) : (
+                <span data-pillar-chat-attachment-name="">{attachment.file.name}</span>
+              )}
+              <button
+                type="button"
+                aria-label={attachment.status === 'ready' ? 'Remove attachment' : 'Cancel upload'}
+                onClick={() => attachments.remove(attachment.id)}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <textarea
+        aria-label="Message"
+        data-pillar-chat-input=""
+        rows={1}
+        value={text}
+        placeholder={placeholder}
+        disabled={disabled}
+        onChange={(event) => setText(event.target.value)}
+        onKeyDown={handleKeyDown}
+        onPaste={allowImages ? attachments.onPaste : undefined}
+      />
+      {allowImages && (
+        <>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={accept.join(',')}
+            multiple
+            hidden
+            onChange={(event) => handleFiles(event.target.files)}
+          />
+          <button
+            type="button"
+            aria-label="Attach file"
+            data-pillar-chat-attach=""
+            disabled={disabled}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            +
+          </button>
+        </>
+      )}
+      {chat.isLoading ? (
+        <button type="button" aria-label="Stop generating" data-pillar-chat-stop="" onClick={chat.stop}>
+          Stop
+        </button>
+      ) : (
+        <button type="submit" aria-label="Send message" data-pillar-chat-submit="" disabled={!canSend}>
+          Send
+        </button>
+      )}
+    </form>
+  );
+}
+
+// ============================================================================
+// Namespace
+// ============================================================================
+
+/**
+ * Unstyled chat primitives built on `usePillarChat`. Style them with the
+ * `data-pillar-chat-*` attributes they render.
+ *
+ * @example
+ * ```tsx
+ * function SupportChat() {
+ *   return (
+ *     <PillarChat.Root className="chat" helpCenterUrl="https://help.myapp.com">
+ *       <PillarChat.Messages className="chat-log" />
+ *       <PillarChat.Composer placeholder="Ask a question…" />
+ *     </PillarChat.Root>
+ *   );
+ * }
+ * ```
+ */
+export const PillarChat = {
+  Root,
+  Messages,
+  Message,
+  Composer,
+  Sources,
+  Progress,
+  Feedback,
+};
@@ -0,0 +1,299 @@
+/**
+ * PillarMarkdown Component
+ * Streaming-safe markdown renderer for agent answers
+ */
+
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type AnchorHTMLAttributes,
+  type HTMLAttributes,
+  type ReactNode,
+} from 'react';
+import type { ArticleSummary } from '@pillar-ai/sdk';
+import { usePillarContext } from './PillarProvider';
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from './utils/markdown';
+
+// ============================================================================
+// Article links
+// ============================================================================
+
+export interface ArticleLinkProps extends Omit<AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> {
+  source: ArticleSummary;
+  helpCenterUrl?: string;
+}
+
+/**
+ * Opens a help-center article in the Pillar panel. With `helpCenterUrl`
+ * it is a real link, so modified clicks still open the article in a tab.
+ */
+export function ArticleLink({
+  source,
+  helpCenterUrl,
+  children,
+  onClick,
+  ...props
+}: ArticleLinkProps): React.ReactElement {
+  const { openArticle } = usePillarContext();
+
+  if (!helpCenterUrl) {
+    return (
+      <button
+        type="button"
+        className={props.className}
+        title={props.title}
+        aria-label={props['aria-label']}
+        onClick={() => openArticle(source.slug)}
+      >
+        {children}
+      </button>
+    );
+  }
+
+  return (
+    <a
+      href={`${helpCenterUrl}/articles/${source.slug}`}
+      onClick={(event) => {
+        onClick?.(event);
+        // Let modified clicks open the article in a new tab
+        if (event.defaultPrevented || event.metaKey || event.ctrlKey || event.shiftKey) return;
+        event.preventDefault();
+        openArticle(source.slug);
+      }}
+      {...props}
+    >
+      {children}
+    </a>
+  );
+}
+
+// ============================================================================
+// Code blocks
+// ============================================================================
+
+function CodeBlock({ block }: { block: Extract<MarkdownBlock, { type: 'code' }> }) {
+  const [copied, setCopied] = useState(false);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(
+    () => () => {
+      if (timeoutRef.current) clearTimeout(timeoutRef.current);
+    },
+    [],
+  );
+
+  const copy = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(block.text);
+      setCopied(true);
+      if (timeoutRef.current) clearTimeout(timeoutRef.current);
+      timeoutRef.current = setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.warn('[Pillar] Could not copy code block:', err);
+    }
+  }, [block.text]);
+
+  return (
+    <div
+      data-pillar-markdown-code=""
+      data-language={block.language}
+      data-complete={block.complete}
+    >
+      <pre>
+        <code className={block.language ? `language-${block.language}` : undefined}>
+          {block.text}
+        </code>
+      </pre>
+      <button
+        type="button"
+        data-pillar-markdown-copy=""
+        data-copied={copied}
+        disabled={!block.complete}
+        aria-label={copied ? 'Copied' : 'Copy code'}
+        onClick={copy}
+      >
+        {copied ? 'Copied' : 'Copy'}
+      </button>
+    </div>
+  );
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+interface RenderContext {
+  sources?: ArticleSummary[];
+  helpCenterUrl?: string;
+}
+
+function renderInline(nodes: MarkdownInline[], context: RenderContext): ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'strong':
+        return <strong key={i}>{renderInline(node.children, context)}</strong>;
+      case 'em':
+        return <em key={i}>{renderInline(node.children, context)}</em>;
+      case 'del':
+        return <del key={i}>{renderInline(node.children, context)}</del>;
+      case 'code':
+        return <code key={i}>{node.text}</code>;
+      case 'break':
+        return <br key={i} />;
+      case 'image':
+        return <img key={i} src={node.src} alt={node.alt} />;
+      case 'link': {
+        const isExternal = /^(https?:)?\/\//i.test(node.href);
+        return (
+          <a
+            key={i}
+            href={node.href}
+            {...(isExternal ? { target: '_blank', rel: 'noopener noreferrer' } : {})}
+          >
+            {renderInline(node.children, context)}
+          </a>
+        );
+      }
+      case 'citation': {
+        const source = context.sources?.[node.index - 1];
+        if (!source) return `[${node.index}]`;
+        return (
+          <sup key={i} data-pillar-markdown-citation="">
+            <ArticleLink
+              source={source}
+              helpCenterUrl={context.helpCenterUrl}
+              title={source.title}
+              aria-label={`Source ${node.index}: ${source.title}`}
+            >
+              {node.index}
+            </ArticleLink>
+          </sup>
+        );
+      }
+    }
+  });
+}
+
+function renderBlocks(blocks: MarkdownBlock[], context: RenderContext): ReactNode[] {
+  return blocks.map((block, i) => {
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={i}>{renderInline(block.children, context)}</p>;
+      case 'heading': {
+        const Heading = `h${block.level}` as 'h1';
+        return <Heading key={i}>{renderInline(block.children, context)}</Heading>;
+      }
+      case 'code':
+        return <CodeBlock key={i} block={block} />;
+      case 'rule':
+        return <hr key={i} />;
+      case 'blockquote':
+        return <blockquote key={i}>{renderBlocks(block.children, context)}</blockquote>;
+      case 'list': {
+        const items = block.items.map((item, j) => (
+          <li key={j}>
+            {/* Tight list items render their text without a wrapping <p> */}
+            {item.length === 1 && item[0].type === 'paragraph'
+              ? renderInline(item[0].children, context)
+              : renderBlocks(item, context)}
+          </li>
+        ));
+        return block.ordered ? (
+          <ol key={i} start={block.start === 1 ? undefined : block.start}>
+            {items}
+          </ol>
+        ) : (
+          <ul key={i}>{items}</ul>
+        );
+      }
+      case 'table':
+        return (
+          <table key={i}>
+            <thead>
+              <tr>
+                {block.header.map((cell, j) => (
+                  <th key={j} style={block.align[j] ? { textAlign: block.align[j]! } : undefined}>
+                    {renderInline(cell, context)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, r) => (
+                <tr key={r}>
+                  {row.map((cell, j) => (
+                    <td key={j} style={block.align[j] ? { textAlign: block.align[j]! } : undefined}>
+                      {renderInline(cell, context)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        );
+    }
+  });
+}
+
+// ============================================================================
+// PillarMarkdown
+// ============================================================================
+
+export interface PillarMarkdownProps extends HTMLAttributes<HTMLDivElement> {
+  /** Markdown source, e.g. `message.content`. */
+  content: string;
+
+  /**
+   * The message's cited articles. Citation markers like `[1]` or `[^1]`
+   * link to `sources[0]` and open it with `openArticle`.
+   */
+  sources?: ArticleSummary[];
+
+  /**
+   * The content is still streaming. Incomplete syntax (open code fences,
+   * half-written links, table rows) is held back or closed instead of
+   * flashing as raw markdown.
+   */
+  isStreaming?: boolean;
+
+  /** Base URL for help-center article links on citations. */
+  helpCenterUrl?: string;
+}
+
+/**
+ * Renders an agent answer as markdown. Raw HTML in the content is shown
+ * as text and only http(s), mailto, tel and relative URLs become links,
+ * so agent output can't inject markup or scripts.
+ *
+ * @example
+ * ```tsx
+ * <PillarMarkdown
+ *   content={message.content}
+ *   sources={message.sources}
+ *   isStreaming={isLoading}
+ * />
+ * ```
+ */
+export function PillarMarkdown({
+  content,
+  sources,
+  isStreaming = false,
+  helpCenterUrl,
+  ...props
+}: PillarMarkdownProps): React.ReactElement {
+  const blocks = useMemo(
+    () => parseMarkdown(content, { streaming: isStreaming }),
+    [content, isStreaming],
+  );
+
+  return (
+    <div data-pillar-markdown="" data-streaming={isStreaming} {...props}>
+      {renderBlocks(blocks, { sources, helpCenterUrl })}
+    </div>
+  );
+}
@@ -27,6 +27,19 @@ import React, {
   type ReactNode,
 } from "react";
 import { createPortal } from "react-dom";
+import type { ReactToolSchema } from "./hooks/usePillarTool";
+import {
+  createReadableStore,
+  type ReadableStore,
+} from "./utils/readableStore";
+import {
+  createStreamingStore,
+  type StreamingStore,
+} from "./utils/streamingStore";
+import {
+  createSuggestionStore,
+  type SuggestionStore,
+} from "./utils/suggestionStore";
 
 // ============================================================================
 // Card Types
@@ -238,6 +251,91 @@ type RegisterPortalFn = (
 
 const PortalRegistryContext = createContext<RegisterPortalFn | null>(null);
 
+// ============================================================================
+// Tool Registry (internal — not part of the public API)
+// ============================================================================
+
+/**
+ * Handlers for a single in-flight tool call owned by a headless chat.
+ * Looked up by `PillarToolCard` so cards can talk back to the chat that
+ * rendered them.
+ */
+export interface ToolCallHandlers {
+  /** inline_ui calls: reply to the agent from the card */
+  sendResult?: (result: Record<string, unknown>) => Promise<void>;
+  /** Confirmation calls: run `execute` and send its result */
+  approve?: (modifiedData?: Record<string, unknown>) => Promise<void>;
+  /** Confirmation calls: send a cancelled result */
+  reject?: () => Promise<void>;
+}
+
+/**
+ * React-side registry of tool schemas registered through `usePillarTool`.
+ * The core SDK only sees the vanilla schema; headless chat needs the
+ * original React schema (render component, confirmation, execute).
+ */
+export interface ToolRegistry {
+  registerTool: (
+    name: string,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    getSchema: () => ReactToolSchema<any>
+  ) => () => void;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  getTool: (name: string) => ReactToolSchema<any> | undefined;
+  registerToolCall: (
+    toolCallId: string,
+    handlers: ToolCallHandlers
+  ) => () => void;
+  getToolCall: (toolCallId: string) => ToolCallHandlers | undefined;
+}
+
+const ToolRegistryContext = createContext<ToolRegistry | null>(null);
+
+// ============================================================================
+// Readable Store (internal — not part of the public API)
+// ============================================================================
+
+const ReadableStoreContext = createContext<ReadableStore | null>(null);
+
+// ============================================================================
+// Streaming Store (internal — not part of the public API)
+// ============================================================================
+
+const StreamingStoreContext = createContext<StreamingStore | null>(null);
+
+// ============================================================================
+// Suggestion Store (internal — not part of the public API)
+// ============================================================================
+
+const SuggestionStoreContext = createContext<SuggestionStore | null>(null);
+
+function createToolRegistry(): ToolRegistry {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const tools = new Map<string, () => ReactToolSchema<any>>();
+  const toolCalls = new Map<string, ToolCallHandlers>();
+
+  return {
+    registerTool: (name, getSchema) => {
+      tools.set(name, getSchema);
+      return () => {
+        if (tools.get(name) === getSchema) {
+          tools.delete(name);
+        }
+      };
+    },
+    getTool: (name) => tools.get(name)?.(),
+    registerToolCall: (toolCallId, handlers) => {
+      toolCalls.set(toolCallId, handlers);
+      return () => {
+        if (toolCalls.get(toolCallId) === handlers) {
+          toolCalls.delete(toolCallId);
+        }
+      };
+    },
+    getToolCall: (toolCallId) => toolCalls.get(toolCallId),
+  };
+}
+
 // ============================================================================
 // Provider Component
 // ============================================================================
@@ -282,6 +380,19 @@ export function PillarProvider({
     []
   );
 
+  // Tool registry: React tool schemas and headless tool calls. Lookups happen
+  // at call time, so a stable mutable registry is enough (no re-renders).
+  const [toolRegistry] = useState(createToolRegistry);
+
+  // Readable context registered by usePillarReadable
+  const [readableStore] = useState(createReadableStore);
+
+  // Live content of streaming messages, read by useStreamingMessage
+  const [streamingStore] = useState(createStreamingStore);
+
+  // Conversation starters registered by usePillarSuggestions
+  const [suggestionStore] = useState(createSuggestionStore);
+
   const resolvedKey = agentSlug ?? productKey ?? helpCenter;
 
   // Keep a ref to the latest onTask callback to avoid re-subscribing
@@ -400,6 +511,30 @@ export function PillarProvider({
 
   // DOM scanning is disabled - no sync needed
 
+  // Sync readable context into the SDK context so panel messages carry it.
+  // Other `custom` keys set by the host app are preserved.
+  useEffect(() => {
+    if (!pillar) return;
+
+    const sync = () => {
+      const readables = Object.fromEntries(
+        readableStore
+          .getEntries()
+          .filter((entry) => !entry.omitted)
+          .map((entry) => [
+            entry.key,
+            { description: entry.description, value: entry.value },
+          ])
+      );
+      pillar.setContext({
+        custom: { ...pillar.context.custom, readables },
+      });
+    };
+
+    sync();
+    return readableStore.subscribe(sync);
+  }, [pillar, readableStore]);
+
   // Register custom card renderers (legacy `cards` prop — uses portals)
   useEffect(() => {
     if (!pillar || !cards) return;
@@ -569,10 +704,18 @@ export function PillarProvider({
   return (
     <PillarContext.Provider value={value}>
       <PortalRegistryContext.Provider value={registerPortal}>
-        {children}
-        {Array.from(portals.entries()).map(([id, { container, element }]) =>
-          createPortal(element, container, id)
-        )}
+        <ToolRegistryContext.Provider value={toolRegistry}>
+          <ReadableStoreContext.Provider value={readableStore}>
+            <StreamingStoreContext.Provider value={streamingStore}>
+              <SuggestionStoreContext.Provider value={suggestionStore}>
+                {children}
+                {Array.from(portals.entries()).map(([id, { container, element }]) =>
+                  createPortal(element, container, id)
+                )}
+              </SuggestionStoreContext.Provider>
+            </StreamingStoreContext.Provider>
+          </ReadableStoreContext.Provider>
+        </ToolRegistryContext.Provider>
       </PortalRegistryContext.Provider>
     </PillarContext.Provider>
   );
@@ -607,3 +750,64 @@ export function usePortalRegistry(): RegisterPortalFn {
 
   return register;
 }
+
+/**
+ * Internal hook to access the tool registry.
+ * Lets headless chat resolve the React schema behind a tool call.
+ */
+export function useToolRegistry(): ToolRegistry {
+  const registry = useContext(ToolRegistryContext);
+
+  if (!registry) {
+    throw new Error(
+      "useToolRegistry must be used within a PillarProvider"
+    );
+  }
+
+  return registry;
+}
+
+/**
+ * Internal hook to access the readable context store.
+ */
+export function useReadableStore(): ReadableStore {
+  const store = useContext(ReadableStoreContext);
+
+  if (!store) {
+    throw new Error(
+      "useReadableStore must be used within a PillarProvider"
+    );
+  }
+
+  return store;
+}
+
+/**
+ * Internal hook to access the streaming message store.
+ */
+export function useStreamingStore(): StreamingStore {
+  const store = useContext(StreamingStoreContext);
+
+  if (!store) {
+    throw new Error(
+      "useStreamingStore must be used within a PillarProvider"
+    );
+  }
+
+  return store;
+}
+
+/**
+ * Internal hook to access the suggestion store.
+ */
+export function useSuggestionStore(): SuggestionStore {
+  const store = useContext(SuggestionStoreContext);
+
+  if (!store) {
+    throw new Error(
+      "useSuggestionStore must be used within a PillarProvider"
+    );
+  }
+
+  return store;
+}
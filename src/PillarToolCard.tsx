@@ -0,0 +1,146 @@
+/**
+ * PillarToolCard Component
+ * Renders an inline_ui or confirmation tool call inside a custom (headless) chat UI
+ */
+
+import React, { useCallback } from 'react';
+import type { ToolCardContext } from '@pillar-ai/sdk';
+import { usePillarContext, useToolRegistry } from './PillarProvider';
+import {
+  InlineUIErrorBoundary,
+  type ReactExecutableToolSchema,
+  type ReactInlineUIToolSchema,
+} from './hooks/usePillarTool';
+import type { PillarToolCallPart } from './hooks/usePillarChat';
+
+export interface PillarToolCardProps {
+  /** The tool call part from `PillarChatMessage.toolCalls`. */
+  part: PillarToolCallPart;
+
+  /** Index of the message that owns this tool call. */
+  messageIndex?: number;
+
+  /** Index of this tool call within the message. */
+  segmentIndex?: number;
+
+  /** Whether this card belongs to the latest message (default: true). */
+  isLatest?: boolean;
+
+  /** Whether the chat is idle and safe to interact with (default: true). */
+  isReady?: boolean;
+
+  /**
+   * Rendered when there is nothing to show: no inline_ui tool with this name
+   * is registered, or a confirmation has no `renderConfirmation` component.
+   */
+  fallback?: React.ReactNode;
+}
+
+/**
+ * Renders the `render` component registered via `usePillarTool` for an
+ * inline_ui tool call, with the same `ToolRenderProps` the panel passes.
+ *
+ * For tool calls in the `'awaiting-confirmation'` state, renders the tool's
+ * `renderConfirmation` component with `ConfirmationRenderProps` wired to the
+ * chat's `approve` / `reject` helpers.
+ *
+ * @example
+ * ```tsx
+ * const { messages, isLoading } = usePillarChat();
+ *
+ * return messages.map((msg, i) => (
+ *   <div key={msg.id ?? i}>
+ *     {msg.content}
+ *     {msg.toolCalls?.map((part, j) => (
+ *       <PillarToolCard
+ *         key={part.toolCallId}
+ *         part={part}
+ *         messageIndex={i}
+ *         segmentIndex={j}
+ *         isLatest={i === messages.length - 1}
+ *         isReady={!isLoading}
+ *       />
+ *     ))}
+ *   </div>
+ * ));
+ * ```
+ */
+export function PillarToolCard({
+  part,
+  messageIndex = -1,
+  segmentIndex = -1,
+  isLatest = true,
+  isReady = true,
+  fallback = null,
+}: PillarToolCardProps): React.ReactElement {
+  const { pillar } = usePillarContext();
+  const toolRegistry = useToolRegistry();
+
+  const sendResult = useCallback(
+    async (result: Record<string, unknown>) => {
+      const handlers = toolRegistry.getToolCall(part.toolCallId);
+      if (!handlers?.sendResult) {
+        console.warn(
+          `[Pillar] Tool call "${part.toolCallId}" is no longer active. Result for "${part.toolName}" was not sent.`
+        );
+        return;
+      }
+      await handlers.sendResult(result);
+    },
+    [toolRegistry, part.toolCallId, part.toolName]
+  );
+
+  const onConfirm = useCallback(
+    (modifiedData?: Record<string, unknown>) => {
+      void toolRegistry.getToolCall(part.toolCallId)?.approve?.(modifiedData);
+    },
+    [toolRegistry, part.toolCallId]
+  );
+
+  const onCancel = useCallback(() => {
+    void toolRegistry.getToolCall(part.toolCallId)?.reject?.();
+  }, [toolRegistry, part.toolCallId]);
+
+  const schema = toolRegistry.getTool(part.toolName);
+
+  if (part.state === 'awaiting-confirmation') {
+    const ConfirmComponent = (schema as ReactExecutableToolSchema | undefined)
+      ?.renderConfirmation;
+    if (!ConfirmComponent) {
+      return <>{fallback}</>;
+    }
+    return (
+      <ConfirmComponent
+        data={part.input}
+        onConfirm={onConfirm}
+        onCancel={onCancel}
+        // The run is paused on this call, so nothing is streaming
+        isReady
+        isLatest={isLatest}
+      />
+    );
+  }
+
+  if (!schema || schema.type !== 'inline_ui') {
+    return <>{fallback}</>;
+  }
+
+  const RenderComponent = (schema as ReactInlineUIToolSchema).render;
+  const context: ToolCardContext = {
+    isLatest,
+    isReady,
+    messageIndex,
+    segmentIndex,
+    toolName: part.toolName,
+  };
+
+  return (
+    <InlineUIErrorBoundary
+      toolName={part.toolName}
+      pillar={pillar}
+      sendResult={sendResult}
+    >
+      <RenderComponent data={part.input} sendResult={sendResult} context={context} />
+    </InlineUIErrorBoundary>
+  );
+}
@@ -0,0 +1,322 @@
+/**
+ * AG-UI agent adapter backed by the Pillar API client.
+ *
+ * Runs a Pillar chat and emits the AG-UI event stream as it happens:
+ * text tokens become TEXT_MESSAGE_* events, action requests become
+ * TOOL_CALL_* events (run through `usePillarTool` handlers), and progress
+ * events are mirrored into agent state with STATE_DELTA.
+ *
+ * Usage with an AG-UI client (e.g. CopilotKit):
+ *   import { AbstractAgent } from '@ag-ui/client';
+ *   import { Observable } from 'rxjs';
+ *
+ *   const pillarAgent = usePillarAGUIAgent();
+ *
+ *   class PillarAgent extends AbstractAgent {
+ *     run(input) {
+ *       return new Observable((subscriber) => pillarAgent.run(input).subscribe(subscriber));
+ *     }
+ *   }
+ */
+
+import { useMemo } from 'react';
+import {
+  getApiClient,
+  normalizeToolResult,
+  type ProgressEvent,
+  type ToolRequest,
+  type UserContextItem,
+} from '@pillar-ai/sdk';
+import { useReadableStore, useToolRegistry } from '../PillarProvider';
+import type { ToolExecutionContext } from '../hooks/usePillarTool';
+import {
+  requiresConfirmation,
+  resolveToolHandler,
+  type ToolSchemaLookup,
+} from '../utils/resolveToolHandler';
+import { chatImages, documentContextItems } from '../utils/attachments';
+import { aguiFiles, aguiImages, aguiText } from './ag-ui';
+import type {
+  AGUIEvent,
+  AGUIRunAgentInput,
+  PillarAGUIAgent,
+} from './types';
+
+/** Wiring supplied by `usePillarAGUIAgent` from the provider. */
+interface AgentInternals {
+  getTool?: ToolSchemaLookup;
+  getUserContext?: () => UserContextItem[];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function createAgent(internals: AgentInternals): PillarAGUIAgent {
+  // AG-UI thread ID → Pillar conversation ID
+  const conversations = new Map<string, string>();
+
+  const execute = async (
+    input: AGUIRunAgentInput,
+    emit: (event: AGUIEvent) => void,
+    signal: AbortSignal,
+  ) => {
+    const api = getApiClient();
+    if (!api) {
+      throw new Error('Pillar SDK is not initialized');
+    }
+
+    const { threadId, runId, messages } = input;
+    const lastUserIndex = messages.map((m) => m.role).lastIndexOf('user');
+    if (lastUserIndex < 0) {
+      throw new Error('Pillar AG-UI agent: there is no user message to send');
+    }
+    const userMessage = messages[lastUserIndex];
+    const history = messages
+      .slice(0, lastUserIndex)
+      .filter((m) => m.role === 'user' || m.role === 'assistant')
+      .map((m) => ({ role: m.role as 'user' | 'assistant', content: aguiText(m.content) }));
+
+    const userContext: UserContextItem[] = [
+      ...(internals.getUserContext?.() ?? []),
+      ...(input.context ?? []).map((item, i) => ({
+        id: `agui-context:${i}`,
+        type: 'agui_context',
+        description: item.description,
+        value: item.value,
+      })),
+      // Documents attached anywhere in the thread stay readable
+      ...documentContextItems(
+        messages.flatMap((m) => (m.role === 'user' ? (aguiFiles(m.content) ?? []) : [])),
+      ),
+    ];
+
+    let convId = conversations.get(threadId) ?? crypto.randomUUID();
+    conversations.set(threadId, convId);
+
+    emit({ type: 'RUN_STARTED', threadId, runId });
+
+    // Progress lives under `pillar.progress` in the agent state
+    const progress: ProgressEvent[] = [];
+    emit({
+      type: 'STATE_SNAPSHOT',
+      snapshot: {
+        ...(isPlainObject(input.state) ? input.state : {}),
+        pillar: { progress: [] },
+      },
+    });
+
+    let serverMessageId: string | undefined;
+    let textMessageId: string | null = null;
+    let lastTextMessageId: string | undefined;
+
+    const endText = () => {
+      if (textMessageId) {
+        emit({ type: 'TEXT_MESSAGE_END', messageId: textMessageId });
+        textMessageId = null;
+      }
+    };
+
+    const writeText = (delta: string) => {
+      if (!textMessageId) {
+        // The first text segment keeps the server's message ID
+        textMessageId =
+          !lastTextMessageId && serverMessageId ? serverMessageId : crypto.randomUUID();
+        lastTextMessageId = textMessageId;
+        emit({ type: 'TEXT_MESSAGE_START', messageId: textMessageId, role: 'assistant' });
+      }
+      emit({ type: 'TEXT_MESSAGE_CONTENT', messageId: textMessageId, delta });
+    };
+
+    const onProgress = (event: ProgressEvent) => {
+      const id = event.id ?? event.progress_id;
+      const index = id ? progress.findIndex((e) => (e.id ?? e.progress_id) === id) : -1;
+      if (index < 0) {
+        progress.push(event);
+        emit({
+          type: 'STATE_DELTA',
+          delta: [{ op: 'add', path: '/pillar/progress/-', value: event }],
+        });
+        return;
+      }
+      // Same merge as the panel: thinking text arrives as deltas
+      const current = progress[index];
+      const merged: ProgressEvent = {
+        ...current,
+        ...event,
+        text:
+          event.kind === 'thinking' && current.text && event.text
+            ? current.text + event.text
+            : event.text ?? current.text,
+      };
+      progress[index] = merged;
+      emit({
+        type: 'STATE_DELTA',
+        delta: [{ op: 'replace', path: `/pillar/progress/${index}`, value: merged }],
+      });
+    };
+
+    const onActionRequest = async (request: ToolRequest) => {
+      endText();
+      const toolCallId = request.tool_call_id ?? crypto.randomUUID();
+      const toolName = request.action_name;
+      const args = request.parameters ?? {};
+      const schema = internals.getTool?.(toolName);
+
+      emit({
+        type: 'TOOL_CALL_START',
+        toolCallId,
+        toolCallName: toolName,
+        ...(lastTextMessageId ? { parentMessageId: lastTextMessageId } : {}),
+      });
+      emit({ type: 'TOOL_CALL_ARGS', toolCallId, delta: JSON.stringify(args) });
+      emit({ type: 'TOOL_CALL_END', toolCallId });
+
+      let result: unknown;
+      if (schema?.type === 'inline_ui') {
+        // Rendered by the AG-UI frontend from the tool call
+        result = { success: true, rendered: true };
+      } else {
+        try {
+          if (requiresConfirmation(schema)) {
+            throw new Error(
+              `Tool "${toolName}" needs user confirmation, which the AG-UI agent does not support. ` +
+                `Use usePillarChat or the Pillar panel for confirmation tools.`,
+            );
+          }
+          const context: ToolExecutionContext = {
+            signal,
+            toolCallId,
+            conversationId: convId,
+            reportProgress: (label: string) => {
+              onProgress({
+                kind: 'tool_progress',
+                id: `tool-progress-${toolCallId}`,
+                label,
+                status: 'active',
+                metadata: { toolCallId, toolName },
+              });
+            },
+          };
+          const handler = resolveToolHandler(toolName, schema, context);
+          if (!handler) {
+            throw new Error(
+              `No handler registered for action "${toolName}". ` +
+                `Register one with pillar.defineTool() or usePillarTool().`,
+            );
+          }
+          result = normalizeToolResult(await Promise.resolve(handler(args)));
+        } catch (err) {
+          result = { success: false, error: err instanceof Error ? err.message : String(err) };
+        }
+      }
+
+      emit({
+        type: 'TOOL_CALL_RESULT',
+        messageId: crypto.randomUUID(),
+        toolCallId,
+        content: JSON.stringify(result),
+        role: 'tool',
+      });
+      await api.mcp.sendActionResult(toolName, result, request.tool_call_id);
+    };
+
+    const response = await api.chat({
+      message: aguiText(userMessage.content),
+      history,
+      images: chatImages(aguiImages(userMessage.content)),
+      userContext,
+      existingConversationId: convId,
+      signal,
+      onConversationStarted: (serverConvId, assistantMessageId) => {
+        if (serverConvId) {
+          convId = serverConvId;
+          conversations.set(threadId, serverConvId);
+        }
+        serverMessageId = assistantMessageId;
+      },
+      onChunk: writeText,
+      onProgress,
+      onActionRequest,
+    });
+
+    serverMessageId = serverMessageId ?? response.messageId;
+    if (!lastTextMessageId && response.message) {
+      // Nothing streamed: send the full answer as one message
+      writeText(response.message);
+    }
+    endText();
+
+    emit({
+      type: 'RUN_FINISHED',
+      threadId,
+      runId,
+      result: { conversationId: convId, sources: response.sources ?? [] },
+    });
+  };
+
+  return {
+    run: (input) => ({
+      subscribe: (observer) => {
+        const abortController = new AbortController();
+        let done = false;
+
+        const emit = (event: AGUIEvent) => {
+          if (!done) observer.next?.(event);
+        };
+
+        execute(input, emit, abortController.signal)
+          .then(() => {
+            if (done) return;
+            done = true;
+            observer.complete?.();
+          })
+          .catch((err: unknown) => {
+            if (done) return;
+            if ((err as Error).name !== 'AbortError') {
+              emit({ type: 'RUN_ERROR', message: err instanceof Error ? err.message : String(err) });
+            }
+            done = true;
+            observer.complete?.();
+          });
+
+        return {
+          unsubscribe: () => {
+            done = true;
+            abortController.abort();
+          },
+        };
+      },
+    }),
+  };
+}
+
+/**
+ * Create an AG-UI agent adapter that runs chats against your Pillar agent.
+ *
+ * Outside a `PillarProvider`, tools resolve to the handlers registered on
+ * the core SDK and readable context is not sent. Prefer
+ * `usePillarAGUIAgent` inside React.
+ */
+export function createPillarAGUIAgent(): PillarAGUIAgent {
+  return createAgent({});
+}
+
+/**
+ * `createPillarAGUIAgent` wired to the surrounding `PillarProvider`:
+ * tool calls run `usePillarTool` handlers with an execution context, and
+ * `usePillarReadable` context is sent with every run.
+ */
+export function usePillarAGUIAgent(): PillarAGUIAgent {
+  const toolRegistry = useToolRegistry();
+  const readableStore = useReadableStore();
+
+  return useMemo(
+    () =>
+      createAgent({
+        getTool: toolRegistry.getTool,
+        getUserContext: readableStore.getContextItems,
+      }),
+    [toolRegistry, readableStore],
+  );
+}
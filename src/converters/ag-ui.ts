@@ -6,13 +6,16 @@
  * activity; thinking progress becomes a reasoning message.
  *
  * Usage:
- *   import { toAGUIMessages } from '@pillar-ai/react';
+ *   import { toAGUIMessages, fromAGUIMessages } from '@pillar-ai/react';
  *   const agMessages = toAGUIMessages(pillarMessages);
+ *   const restored = fromAGUIMessages(agMessages);
  */
 
 import { useMemo } from 'react';
 import {
   usePillarChat,
+  type PillarChatFile,
+  type PillarChatImage,
   type PillarChatMessage,
   type UsePillarChatOptions,
   type UsePillarChatReturn,
@@ -21,42 +24,48 @@ import type {
   ConverterOptions,
   PillarAGUIMessage,
   AGUIInputContent,
+  AGUIRunMessage,
 } from './types';
 import type { ProgressEvent } from '@pillar-ai/sdk';
-
-let _idCounter = 0;
-function stableId(): string {
-  return `pillar-agui-${Date.now()}-${_idCounter++}`;
-}
+import {
+  isToolCallSettled,
+  parseToolOutput,
+  toolCallErrorText,
+  toolOutputText,
+  withoutToolResultMessages,
+} from './tool-calls';
+import { messageId, useConvertedMessages } from './identity';
+import { fileFromUrl, fileUrl } from '../utils/attachments';
 
 export function toAGUIMessages(
   messages: PillarChatMessage[],
   _options?: ConverterOptions,
 ): PillarAGUIMessage[] {
-  const result: PillarAGUIMessage[] = [];
+  return withoutToolResultMessages(messages).flatMap((msg, index) =>
+    toAGUIMessageGroup(msg, index),
+  );
+}
 
-  for (const msg of messages) {
-    const id = msg.id ?? stableId();
+/** The AG-UI messages produced by one Pillar message. */
+function toAGUIMessageGroup(msg: PillarChatMessage, index: number): PillarAGUIMessage[] {
+  const id = messageId(msg, index);
 
-    if (msg.role === 'user') {
-      result.push(buildUserMessage(id, msg));
-    } else {
-      result.push(buildAssistantMessage(id, msg));
-
-      if (msg.progressEvents) {
-        result.push(...buildProgressMessages(msg.progressEvents));
-      }
-    }
+  if (msg.role === 'user') {
+    return [buildUserMessage(id, msg)];
   }
 
-  return result;
+  return [
+    buildAssistantMessage(id, msg),
+    ...buildToolMessages(msg),
+    ...(msg.progressEvents ? buildProgressMessages(id, msg.progressEvents) : []),
+  ];
 }
 
 function buildUserMessage(
   id: string,
   msg: PillarChatMessage,
 ): PillarAGUIMessage {
-  if (!msg.images?.length) {
+  if (!msg.images?.length && !msg.files?.length) {
     return { id, role: 'user', content: msg.content };
   }
 
@@ -64,8 +73,17 @@ function buildUserMessage(
     { type: 'text', text: msg.content },
   ];
 
-  for (const img of msg.images) {
-    contentParts.push({ type: 'binary', mimeType: 'image/*', url: img.url });
+  for (const img of msg.images ?? []) {
+    contentParts.push({ type: 'binary', mimeType: img.mediaType ?? 'image/*', url: img.url });
+  }
+
+  for (const file of msg.files ?? []) {
+    contentParts.push({
+      type: 'binary',
+      mimeType: file.mediaType,
+      url: fileUrl(file),
+      filename: file.name,
+    });
   }
 
   return { id, role: 'user', content: contentParts };
@@ -75,26 +93,52 @@ function buildAssistantMessage(
   id: string,
   msg: PillarChatMessage,
 ): PillarAGUIMessage {
-  return { id, role: 'assistant', content: msg.content || undefined };
+  if (!msg.toolCalls?.length) {
+    return { id, role: 'assistant', content: msg.content || undefined };
+  }
+
+  return {
+    id,
+    role: 'assistant',
+    content: msg.content || undefined,
+    toolCalls: msg.toolCalls.map((call) => ({
+      id: call.toolCallId,
+      type: 'function',
+      function: { name: call.toolName, arguments: JSON.stringify(call.input) },
+    })),
+  };
+}
+
+function buildToolMessages(msg: PillarChatMessage): PillarAGUIMessage[] {
+  return (msg.toolCalls ?? []).filter(isToolCallSettled).map((call) => ({
+    id: `${call.toolCallId}-result`,
+    role: 'tool',
+    content: toolOutputText(call),
+    toolCallId: call.toolCallId,
+    ...(call.state === 'complete' ? {} : { error: toolCallErrorText(call) }),
+  }));
 }
 
 function buildProgressMessages(
+  ownerId: string,
   events: ProgressEvent[],
 ): PillarAGUIMessage[] {
   const result: PillarAGUIMessage[] = [];
 
-  for (const event of events) {
+  for (const [i, event] of events.entries()) {
     if (event.status !== 'active') continue;
+    // Covered by the assistant's toolCalls
+    if (event.kind === 'tool_progress') continue;
 
     if (event.kind === 'thinking' && event.text) {
       result.push({
-        id: event.id ?? stableId(),
+        id: event.id ?? `${ownerId}-progress-${i}`,
         role: 'reasoning',
         content: event.text,
       });
     } else {
       result.push({
-        id: event.id ?? stableId(),
+        id: event.id ?? `${ownerId}-progress-${i}`,
         role: 'activity',
         activityType: event.kind.toUpperCase(),
         content: {
@@ -108,6 +152,139 @@ function buildProgressMessages(
   return result;
 }
 
+// ---------------------------------------------------------------------------
+// AG-UI → Pillar
+// ---------------------------------------------------------------------------
+
+/** Text of an AG-UI message's content. */
+export function aguiText(content: AGUIRunMessage['content']): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content.map((part) => (part.type === 'text' ? part.text : '')).join('');
+}
+
+/** Images in an AG-UI message's content. */
+export function aguiImages(content: AGUIRunMessage['content']): PillarChatImage[] | undefined {
+  if (!Array.isArray(content)) return undefined;
+  const images: PillarChatImage[] = [];
+  for (const part of content) {
+    if (part.type === 'binary' && part.url && part.mimeType.startsWith('image/')) {
+      images.push({
+        url: part.url,
+        // 'image/*' is the placeholder toAGUIMessages uses for unknown types
+        ...(part.mimeType !== 'image/*' ? { mediaType: part.mimeType } : {}),
+      });
+    }
+  }
+  return images.length ? images : undefined;
+}
+
+/**
+ * Documents in an AG-UI message's content. Inline `data` is kept when it
+ * holds text; other binary parts without a URL are skipped.
+ */
+export function aguiFiles(content: AGUIRunMessage['content']): PillarChatFile[] | undefined {
+  if (!Array.isArray(content)) return undefined;
+  const files: PillarChatFile[] = [];
+  for (const part of content) {
+    if (part.type !== 'binary' || part.mimeType.startsWith('image/')) continue;
+    const url = part.url ?? (part.data ? `data:${part.mimeType};base64,${part.data}` : undefined);
+    if (!url) continue;
+    const file = fileFromUrl(
+      url,
+      part.filename ?? url.split('/').pop()?.split('?')[0] ?? url,
+      part.mimeType,
+    );
+    // Inline binary data that isn't text can't be shown or sent
+    if (file.url && !part.url) continue;
+    files.push(file);
+  }
+  return files.length ? files : undefined;
+}
+
+/**
+ * Convert AG-UI messages back to PillarChatMessage[], e.g. to seed
+ * `usePillarChat({ initialMessages })`.
+ *
+ * Tool messages fill in the output of the matching assistant tool call,
+ * and reasoning / activity messages become progress events on the
+ * preceding assistant message. System and developer messages are dropped.
+ */
+export function fromAGUIMessages(messages: AGUIRunMessage[]): PillarChatMessage[] {
+  const result: PillarChatMessage[] = [];
+
+  for (const msg of messages) {
+    if (msg.role === 'user') {
+      const images = aguiImages(msg.content);
+      const files = aguiFiles(msg.content);
+      result.push({
+        id: msg.id,
+        role: 'user',
+        content: aguiText(msg.content),
+        ...(images ? { images } : {}),
+        ...(files ? { files } : {}),
+      });
+    } else if (msg.role === 'assistant') {
+      result.push({
+        id: msg.id,
+        role: 'assistant',
+        content: aguiText(msg.content),
+        ...(msg.toolCalls?.length
+          ? {
+              toolCalls: msg.toolCalls.map((call) => ({
+                type: 'tool-call' as const,
+                toolCallId: call.id,
+                toolName: call.function.name,
+                input: parseArguments(call.function.arguments),
+                // Output is filled in by the matching tool message, if any
+                state: 'complete' as const,
+              })),
+            }
+          : {}),
+      });
+    } else if (msg.role === 'tool') {
+      const call = result
+        .flatMap((m) => m.toolCalls ?? [])
+        .find((t) => t.toolCallId === msg.toolCallId);
+      if (call && msg.error) {
+        call.state = 'error';
+        call.error = msg.error;
+      } else if (call) {
+        call.output = parseToolOutput(aguiText(msg.content));
+      }
+    } else if (msg.role === 'reasoning' || msg.role === 'activity') {
+      const owner = result[result.length - 1];
+      if (owner?.role !== 'assistant') continue;
+      const event: ProgressEvent =
+        msg.role === 'reasoning'
+          ? { kind: 'thinking', id: msg.id, text: aguiText(msg.content), status: 'done' }
+          : {
+              kind: (msg.activityType ?? 'activity').toLowerCase(),
+              id: msg.id,
+              label: activityLabel(msg.content),
+              status: 'done',
+            };
+      owner.progressEvents = [...(owner.progressEvents ?? []), event];
+    }
+  }
+
+  return result;
+}
+
+function parseArguments(args: string): Record<string, unknown> {
+  const parsed = parseToolOutput(args);
+  return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+    ? (parsed as Record<string, unknown>)
+    : {};
+}
+
+function activityLabel(content: AGUIRunMessage['content']): string | undefined {
+  if (typeof content !== 'object' || content === null || Array.isArray(content)) {
+    return undefined;
+  }
+  return typeof content.label === 'string' ? content.label : undefined;
+}
+
 // ---------------------------------------------------------------------------
 // Convenience hook
 // ---------------------------------------------------------------------------
@@ -122,10 +299,10 @@ export function usePillarChatAGUI(
   options?: UsePillarChatOptions,
 ): UsePillarChatAGUIReturn {
   const chat = usePillarChat(options);
-  const messages = useMemo(
-    () => toAGUIMessages(chat.messages),
-    [chat.messages],
-  );
+  // Cached per Pillar message; one Pillar message can yield several AG-UI messages
+  const visible = useMemo(() => withoutToolResultMessages(chat.messages), [chat.messages]);
+  const groups = useConvertedMessages(visible, toAGUIMessageGroup);
+  const messages = useMemo(() => groups.flat(), [groups]);
 
   return { ...chat, messages, rawMessages: chat.messages };
 }
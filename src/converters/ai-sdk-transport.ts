@@ -0,0 +1,317 @@
+/**
+ * AI SDK ChatTransport backed by the Pillar API client.
+ *
+ * Lets AI SDK's `useChat` talk to a Pillar agent directly. Text, reasoning
+ * and sources stream as UIMessage chunks; tool calls are run on the client
+ * through the handlers registered with `usePillarTool`.
+ *
+ * Usage:
+ *   import { useChat } from '@ai-sdk/react';
+ *   import { usePillarChatTransport } from '@pillar-ai/react';
+ *
+ *   const transport = usePillarChatTransport();
+ *   const { messages, sendMessage } = useChat({ transport });
+ */
+
+import { useMemo } from 'react';
+import {
+  getApiClient,
+  normalizeToolResult,
+  type ProgressEvent,
+  type ToolRequest,
+  type UserContextItem,
+} from '@pillar-ai/sdk';
+import { useReadableStore, useToolRegistry } from '../PillarProvider';
+import type { ToolExecutionContext } from '../hooks/usePillarTool';
+import { chatImages, documentContextItems } from '../utils/attachments';
+import {
+  requiresConfirmation,
+  resolveToolHandler,
+  type ToolSchemaLookup,
+} from '../utils/resolveToolHandler';
+import type {
+  ConverterOptions,
+  PillarChatTransport,
+  PillarChatTransportSendOptions,
+  PillarUIMessageChunk,
+  TransportUIMessage,
+} from './types';
+import { uiAttachments } from './ai-sdk';
+
+export type PillarChatTransportOptions = ConverterOptions;
+
+/** Wiring supplied by `usePillarChatTransport` from the provider. */
+interface TransportInternals {
+  getTool?: ToolSchemaLookup;
+  getUserContext?: () => UserContextItem[];
+}
+
+function textOf(message: TransportUIMessage): string {
+  return message.parts
+    .filter((part) => part.type === 'text' && part.text)
+    .map((part) => part.text)
+    .join('');
+}
+
+/** Images of a user message, as `api.chat()` fields. */
+function attachmentsOf(message: TransportUIMessage) {
+  const { images } = uiAttachments(message.parts);
+  return { images: chatImages(images.length ? images : undefined) };
+}
+
+/** Text of the documents attached anywhere in the thread, for the agent to read. */
+function documentsOf(messages: TransportUIMessage[]): UserContextItem[] {
+  return documentContextItems(
+    messages.flatMap((m) => (m.role === 'user' ? uiAttachments(m.parts).files : [])),
+  );
+}
+
+function createTransport(
+  options: PillarChatTransportOptions,
+  internals: TransportInternals,
+): PillarChatTransport {
+  // AI SDK chat ID → Pillar conversation ID
+  const conversations = new Map<string, string>();
+
+  const sendMessages = async ({
+    chatId,
+    messages,
+    abortSignal,
+  }: PillarChatTransportSendOptions): Promise<ReadableStream<PillarUIMessageChunk>> => {
+    const api = getApiClient();
+    if (!api) {
+      throw new Error('Pillar SDK is not initialized');
+    }
+
+    const lastUserIndex = messages.map((m) => m.role).lastIndexOf('user');
+    if (lastUserIndex < 0) {
+      throw new Error('Pillar chat transport: there is no user message to send');
+    }
+    const userMessage = messages[lastUserIndex];
+    const history = messages
+      .slice(0, lastUserIndex)
+      .filter((m) => m.role !== 'system')
+      .map((m) => ({ role: m.role as 'user' | 'assistant', content: textOf(m) }));
+
+    let convId = conversations.get(chatId) ?? crypto.randomUUID();
+    conversations.set(chatId, convId);
+
+    return new ReadableStream<PillarUIMessageChunk>({
+      start: async (controller) => {
+        let closed = false;
+        let started = false;
+        let textId: string | null = null;
+        let textCount = 0;
+        // Open reasoning blocks, by progress event ID
+        const reasoning = new Set<string>();
+
+        const emit = (chunk: PillarUIMessageChunk) => {
+          if (!closed) controller.enqueue(chunk);
+        };
+
+        const start = (messageId?: string) => {
+          if (started) return;
+          started = true;
+          emit({ type: 'start', ...(messageId ? { messageId } : {}) });
+          emit({ type: 'start-step' });
+        };
+
+        const endText = () => {
+          if (textId) {
+            emit({ type: 'text-end', id: textId });
+            textId = null;
+          }
+        };
+
+        const onProgress = (event: ProgressEvent) => {
+          if (event.kind !== 'thinking') return;
+          start();
+          const id = event.id ?? event.progress_id ?? 'reasoning';
+          if (!reasoning.has(id)) {
+            reasoning.add(id);
+            emit({ type: 'reasoning-start', id });
+          }
+          if (event.text) {
+            emit({ type: 'reasoning-delta', id, delta: event.text });
+          }
+          if (event.status === 'done' || event.status === 'error') {
+            reasoning.delete(id);
+            emit({ type: 'reasoning-end', id });
+          }
+        };
+
+        const onActionRequest = async (request: ToolRequest) => {
+          start();
+          endText();
+          const toolCallId = request.tool_call_id ?? crypto.randomUUID();
+          const toolName = request.action_name;
+          const input = request.parameters ?? {};
+          const schema = internals.getTool?.(toolName);
+
+          // The transport runs the tool, so useChat must not call onToolCall
+          emit({
+            type: 'tool-input-available',
+            toolCallId,
+            toolName,
+            input,
+            providerExecuted: true,
+          });
+
+          if (schema?.type === 'inline_ui') {
+            // Rendered by the app from the `tool-<name>` part
+            await api.mcp.sendActionResult(
+              toolName,
+              { success: true, rendered: true },
+              request.tool_call_id,
+            );
+            return;
+          }
+
+          let result: unknown;
+          try {
+            if (requiresConfirmation(schema)) {
+              throw new Error(
+                `Tool "${toolName}" needs user confirmation, which the AI SDK transport does not support. ` +
+                  `Use usePillarChat or the Pillar panel for confirmation tools.`,
+              );
+            }
+            const context: ToolExecutionContext = {
+              signal: abortSignal ?? new AbortController().signal,
+              toolCallId,
+              conversationId: convId,
+              reportProgress: (label: string) => {
+                emit({
+                  type: 'data-tool-progress',
+                  id: toolCallId,
+                  data: { toolCallId, toolName, label },
+                  transient: true,
+                });
+              },
+            };
+            const handler = resolveToolHandler(toolName, schema, context);
+            if (!handler) {
+              throw new Error(
+                `No handler registered for action "${toolName}". ` +
+                  `Register one with pillar.defineTool() or usePillarTool().`,
+              );
+            }
+            result = normalizeToolResult(await Promise.resolve(handler(input)));
+            emit({ type: 'tool-output-available', toolCallId, output: result, providerExecuted: true });
+          } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : String(err);
+            result = { success: false, error: errorMessage };
+            emit({ type: 'tool-output-error', toolCallId, errorText: errorMessage, providerExecuted: true });
+          }
+          await api.mcp.sendActionResult(toolName, result, request.tool_call_id);
+        };
+
+        try {
+          const response = await api.chat({
+            message: textOf(userMessage),
+            history,
+            ...attachmentsOf(userMessage),
+            userContext: [...(internals.getUserContext?.() ?? []), ...documentsOf(messages)],
+            existingConversationId: convId,
+            signal: abortSignal,
+            onConversationStarted: (serverConvId, assistantMessageId) => {
+              if (serverConvId) {
+                convId = serverConvId;
+                conversations.set(chatId, serverConvId);
+              }
+              start(assistantMessageId);
+            },
+            onChunk: (token) => {
+              start();
+              if (!textId) {
+                textId = `text-${textCount++}`;
+                emit({ type: 'text-start', id: textId });
+              }
+              emit({ type: 'text-delta', id: textId, delta: token });
+            },
+            onProgress,
+            onActionRequest,
+          });
+
+          start(response.messageId);
+          if (!textCount && response.message) {
+            // Nothing streamed: send the full answer as one block
+            textId = `text-${textCount++}`;
+            emit({ type: 'text-start', id: textId });
+            emit({ type: 'text-delta', id: textId, delta: response.message });
+          }
+          endText();
+          reasoning.forEach((id) => emit({ type: 'reasoning-end', id }));
+
+          for (const source of response.sources ?? []) {
+            if (options.helpCenterUrl) {
+              emit({
+                type: 'source-url',
+                sourceId: source.id,
+                url: `${options.helpCenterUrl}/articles/${source.slug}`,
+                title: source.title,
+              });
+            } else {
+              emit({
+                type: 'source-document',
+                sourceId: source.id,
+                mediaType: 'text/html',
+                title: source.title,
+              });
+            }
+          }
+
+          emit({ type: 'finish-step' });
+          emit({ type: 'finish' });
+        } catch (err) {
+          // useChat handles aborts itself
+          if ((err as Error).name !== 'AbortError') {
+            emit({ type: 'error', errorText: err instanceof Error ? err.message : String(err) });
+          }
+        } finally {
+          closed = true;
+          controller.close();
+        }
+      },
+    });
+  };
+
+  return {
+    sendMessages,
+    // Pillar streams cannot be re-attached to after a disconnect
+    reconnectToStream: async () => null,
+  };
+}
+
+/**
+ * Create an AI SDK `ChatTransport` that sends messages to your Pillar agent.
+ *
+ * Outside a `PillarProvider`, tools resolve to the handlers registered on
+ * the core SDK and readable context is not sent. Prefer
+ * `usePillarChatTransport` inside React.
+ */
+export function createPillarChatTransport(
+  options: PillarChatTransportOptions = {},
+): PillarChatTransport {
+  return createTransport(options, {});
+}
+
+/**
+ * `createPillarChatTransport` wired to the surrounding `PillarProvider`:
+ * tool calls run `usePillarTool` handlers with an execution context, and
+ * `usePillarReadable` context is sent with every message.
+ */
+export function usePillarChatTransport(
+  options: PillarChatTransportOptions = {},
+): PillarChatTransport {
+  const toolRegistry = useToolRegistry();
+  const readableStore = useReadableStore();
+
+  return useMemo(
+    () =>
+      createTransport(options, {
+        getTool: toolRegistry.getTool,
+        getUserContext: readableStore.getContextItems,
+      }),
+    [toolRegistry, readableStore, options.helpCenterUrl],
+  );
+}
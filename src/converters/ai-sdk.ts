@@ -2,9 +2,10 @@
  * Converts PillarChatMessage[] to AI SDK UIMessage-compatible format.
  *
  * Usage:
- *   import { toUIMessages } from '@pillar-ai/react';
+ *   import { toUIMessages, fromUIMessages } from '@pillar-ai/react';
  *   import type { UIMessage } from 'ai';
  *   const messages: UIMessage[] = toUIMessages(pillarMessages);
+ *   const restored = fromUIMessages(messages);
  *
  * Or use the hook:
  *   import { usePillarChatUIMessages } from '@pillar-ai/react';
@@ -14,32 +15,44 @@
 import { useMemo } from 'react';
 import {
   usePillarChat,
+  type PillarChatFile,
+  type PillarChatImage,
   type PillarChatMessage,
+  type PillarToolCallPart,
   type UsePillarChatOptions,
   type UsePillarChatReturn,
 } from '../hooks/usePillarChat';
+import type { ArticleSummary, ProgressEvent } from '@pillar-ai/sdk';
 import type {
   ConverterOptions,
   PillarUIMessage,
   PillarUIMessagePart,
+  PillarUIToolPart,
+  TransportUIMessage,
 } from './types';
-
-let _idCounter = 0;
-function stableId(): string {
-  return `pillar-${Date.now()}-${_idCounter++}`;
-}
+import { toolCallErrorText, withoutToolResultMessages } from './tool-calls';
+import { messageCreatedAt, messageId, useConvertedMessages } from './identity';
+import { fileFromUrl, fileUrl } from '../utils/attachments';
 
 export function toUIMessages(
   messages: PillarChatMessage[],
   options?: ConverterOptions,
 ): PillarUIMessage[] {
-  return messages.map((msg) => ({
-    id: msg.id ?? stableId(),
+  return withoutToolResultMessages(messages).map((msg, index) => toUIMessage(msg, index, options));
+}
+
+function toUIMessage(
+  msg: PillarChatMessage,
+  index: number,
+  options?: ConverterOptions,
+): PillarUIMessage {
+  return {
+    id: messageId(msg, index),
     role: msg.role,
     content: msg.content ?? '',
     parts: buildUIParts(msg, options),
-    createdAt: new Date(),
-  }));
+    createdAt: messageCreatedAt(msg),
+  };
 }
 
 function buildUIParts(
@@ -48,13 +61,31 @@ function buildUIParts(
 ): PillarUIMessagePart[] {
   const parts: PillarUIMessagePart[] = [];
 
+  // Tool calls run before the answer text is written
+  if (msg.toolCalls) {
+    for (const call of msg.toolCalls) {
+      parts.push(buildToolPart(call));
+    }
+  }
+
   if (msg.content) {
     parts.push({ type: 'text', text: msg.content });
   }
 
   if (msg.images) {
     for (const img of msg.images) {
-      parts.push({ type: 'file', url: img.url, mediaType: 'image/*' });
+      parts.push({ type: 'file', url: img.url, mediaType: img.mediaType ?? 'image/*' });
+    }
+  }
+
+  if (msg.files) {
+    for (const file of msg.files) {
+      parts.push({
+        type: 'file',
+        url: fileUrl(file),
+        mediaType: file.mediaType,
+        filename: file.name,
+      });
     }
   }
 
@@ -80,6 +111,8 @@ function buildUIParts(
   if (msg.progressEvents) {
     for (const event of msg.progressEvents) {
       if (event.status !== 'active') continue;
+      // Covered by the tool part
+      if (event.kind === 'tool_progress') continue;
 
       if (event.kind === 'thinking' && event.text) {
         parts.push({ type: 'reasoning', text: event.text });
@@ -96,6 +129,139 @@ function buildUIParts(
   return parts;
 }
 
+function buildToolPart(call: PillarToolCallPart): PillarUIToolPart {
+  const base = {
+    type: `tool-${call.toolName}` as const,
+    toolCallId: call.toolCallId,
+    input: call.input,
+  };
+
+  if (call.state === 'complete' && call.output !== undefined) {
+    return { ...base, state: 'output-available', output: call.output };
+  }
+  if (call.state === 'error' || call.state === 'cancelled') {
+    return { ...base, state: 'output-error', errorText: toolCallErrorText(call) };
+  }
+  // Running, awaiting confirmation, or an inline_ui card without a result yet
+  return { ...base, state: 'input-available' };
+}
+
+// ---------------------------------------------------------------------------
+// AI SDK → Pillar
+// ---------------------------------------------------------------------------
+
+/** Images and documents in a UIMessage's `file` parts. */
+export function uiAttachments(parts: TransportUIMessage['parts']): {
+  images: PillarChatImage[];
+  files: PillarChatFile[];
+} {
+  const images: PillarChatImage[] = [];
+  const files: PillarChatFile[] = [];
+
+  for (const part of parts) {
+    if (part.type !== 'file' || !part.url) continue;
+    if (!part.mediaType || part.mediaType.startsWith('image/')) {
+      // 'image/*' is the placeholder toUIMessages uses for unknown types
+      images.push({
+        url: part.url,
+        ...(part.mediaType && part.mediaType !== 'image/*' ? { mediaType: part.mediaType } : {}),
+      });
+    } else {
+      files.push(
+        fileFromUrl(
+          part.url,
+          part.filename ?? part.url.split('/').pop()?.split('?')[0] ?? part.url,
+          part.mediaType,
+        ),
+      );
+    }
+  }
+
+  return { images, files };
+}
+
+/**
+ * Convert AI SDK UIMessages back to PillarChatMessage[], e.g. to seed
+ * `usePillarChat({ initialMessages })` from a stored transcript.
+ *
+ * Reasoning parts become thinking progress events, `tool-<name>` and
+ * `dynamic-tool` parts become tool calls, and `source-url` parts become
+ * sources. System messages are dropped.
+ */
+export function fromUIMessages(messages: TransportUIMessage[]): PillarChatMessage[] {
+  return messages
+    .filter((msg) => msg.role !== 'system')
+    .map((msg) => {
+      const { images, files } = uiAttachments(msg.parts);
+      const sources: ArticleSummary[] = [];
+      const progressEvents: ProgressEvent[] = [];
+      const toolCalls: PillarToolCallPart[] = [];
+      let content = '';
+
+      msg.parts.forEach((part, i) => {
+        if (part.type === 'text' && part.text) {
+          content += part.text;
+        } else if (part.type === 'source-url' && part.url) {
+          sources.push({
+            id: part.sourceId ?? part.url,
+            title: part.title ?? part.url,
+            // toUIMessages links to `<helpCenterUrl>/articles/<slug>`
+            slug: part.url.split('/articles/')[1] ?? part.url,
+          });
+        } else if (part.type === 'reasoning' && part.text) {
+          progressEvents.push({
+            kind: 'thinking',
+            id: `${msg.id}-reasoning-${i}`,
+            text: part.text,
+            status: 'done',
+          });
+        } else if (
+          (part.type.startsWith('tool-') || part.type === 'dynamic-tool') &&
+          part.toolCallId
+        ) {
+          toolCalls.push(fromToolPart(part));
+        }
+      });
+
+      return {
+        id: msg.id,
+        role: msg.role as 'user' | 'assistant',
+        content,
+        ...(msg.createdAt ? { createdAt: msg.createdAt.getTime() } : {}),
+        ...(images.length ? { images } : {}),
+        ...(files.length ? { files } : {}),
+        ...(sources.length ? { sources } : {}),
+        ...(progressEvents.length ? { progressEvents } : {}),
+        ...(toolCalls.length ? { toolCalls } : {}),
+      };
+    });
+}
+
+function fromToolPart(part: TransportUIMessage['parts'][number]): PillarToolCallPart {
+  const input =
+    typeof part.input === 'object' && part.input !== null
+      ? (part.input as Record<string, unknown>)
+      : {};
+  const call: PillarToolCallPart = {
+    type: 'tool-call',
+    toolCallId: part.toolCallId!,
+    toolName: part.type === 'dynamic-tool' ? part.toolName ?? 'unknown' : part.type.slice(5),
+    input,
+    // A restored call cannot still be running
+    state: 'complete',
+  };
+
+  if (part.state === 'output-available') {
+    call.output = part.output;
+  } else if (part.state === 'output-error') {
+    call.state = 'error';
+    call.error = part.errorText;
+  } else if (part.state === 'output-denied') {
+    call.state = 'cancelled';
+  }
+  return call;
+}
+
 // ---------------------------------------------------------------------------
 // Convenience hook
 // ---------------------------------------------------------------------------
@@ -113,9 +279,11 @@ export function usePillarChatUIMessages(
   const converterOpts: ConverterOptions | undefined = options?.helpCenterUrl
     ? { helpCenterUrl: options.helpCenterUrl }
     : undefined;
-  const messages = useMemo(
-    () => toUIMessages(chat.messages, converterOpts),
-    [chat.messages, converterOpts?.helpCenterUrl],
+  const visible = useMemo(() => withoutToolResultMessages(chat.messages), [chat.messages]);
+  const messages = useConvertedMessages(
+    visible,
+    (msg, index) => toUIMessage(msg, index, converterOpts),
+    converterOpts?.helpCenterUrl,
   );
 
   return { ...chat, messages, rawMessages: chat.messages };
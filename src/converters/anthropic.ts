@@ -0,0 +1,80 @@
+/**
+ * Converts PillarChatMessage[] to Anthropic Messages API `messages`
+ * for replaying conversations through Claude.
+ *
+ * Images become `image` blocks with URL sources. Tool calls become a
+ * `tool_use` turn followed by a user turn with the matching `tool_result`
+ * blocks, before the assistant's answer text. Consecutive turns with the
+ * same role are merged, since the API requires alternating roles.
+ * Sources and progress events are omitted.
+ *
+ * Usage:
+ *   import { toAnthropicMessages } from '@pillar-ai/react';
+ *   await anthropic.messages.create({ model, max_tokens, messages: toAnthropicMessages(pillarMessages) });
+ */
+
+import type { PillarChatMessage } from '../hooks/usePillarChat';
+import type { AnthropicContentBlock, AnthropicMessageParam } from './types';
+import { toolOutputText, withoutToolResultMessages } from './tool-calls';
+
+export function toAnthropicMessages(
+  messages: PillarChatMessage[],
+): AnthropicMessageParam[] {
+  const turns = withoutToolResultMessages(messages).flatMap(buildTurns);
+  const result: AnthropicMessageParam[] = [];
+
+  for (const turn of turns) {
+    // Empty text blocks are rejected by the API
+    if (turn.content.length === 0) continue;
+
+    const last = result[result.length - 1];
+    if (last?.role === turn.role) {
+      last.content = [...last.content, ...turn.content];
+    } else {
+      result.push(turn);
+    }
+  }
+
+  return result;
+}
+
+function textBlocks(text: string): AnthropicContentBlock[] {
+  return text ? [{ type: 'text', text }] : [];
+}
+
+function buildTurns(msg: PillarChatMessage): AnthropicMessageParam[] {
+  if (msg.role === 'user') {
+    // Images first, as recommended for vision prompts
+    const images: AnthropicContentBlock[] = (msg.images ?? []).map((img) => ({
+      type: 'image',
+      source: { type: 'url', url: img.url },
+    }));
+    return [{ role: 'user', content: [...images, ...textBlocks(msg.content)] }];
+  }
+
+  if (!msg.toolCalls?.length) {
+    return [{ role: 'assistant', content: textBlocks(msg.content) }];
+  }
+
+  return [
+    {
+      role: 'assistant',
+      content: msg.toolCalls.map((call) => ({
+        type: 'tool_use',
+        id: call.toolCallId,
+        name: call.toolName,
+        input: call.input,
+      })),
+    },
+    {
+      role: 'user',
+      content: msg.toolCalls.map((call) => ({
+        type: 'tool_result',
+        tool_use_id: call.toolCallId,
+        content: toolOutputText(call),
+        ...(call.state === 'complete' ? {} : { is_error: true }),
+      })),
+    },
+    { role: 'assistant', content: textBlocks(msg.content) },
+  ];
+}
@@ -0,0 +1,64 @@
+/**
+ * Stable message identity for converters.
+ *
+ * Messages from `usePillarChat` carry an `id` and `createdAt` assigned when
+ * they are created. Messages built elsewhere may not, so converters fall
+ * back to values that do not change between conversions: an index-based
+ * ID, and a timestamp remembered per message object.
+ */
+
+import { useMemo, useRef } from 'react';
+import type { PillarChatMessage } from '../hooks/usePillarChat';
+
+const fallbackTimes = new WeakMap<PillarChatMessage, number>();
+
+export function messageId(msg: PillarChatMessage, index: number): string {
+  return msg.id ?? `pillar-${index}`;
+}
+
+export function messageCreatedAt(msg: PillarChatMessage): Date {
+  if (msg.createdAt !== undefined) return new Date(msg.createdAt);
+  let time = fallbackTimes.get(msg);
+  if (time === undefined) {
+    time = Date.now();
+    fallbackTimes.set(msg, time);
+  }
+  return new Date(time);
+}
+
+/**
+ * Convert messages one at a time, reusing the previous result for message
+ * objects that have not changed. During streaming only the streaming
+ * message is converted again, so the others keep object identity.
+ *
+ * `cacheKey` should change whenever `convert` would give a different
+ * result for the same message (e.g. converter options).
+ */
+export function useConvertedMessages<T>(
+  messages: PillarChatMessage[],
+  convert: (msg: PillarChatMessage, index: number) => T,
+  cacheKey?: string,
+): T[] {
+  const cacheRef = useRef<{
+    key?: string;
+    entries: WeakMap<PillarChatMessage, { index: number; value: T }>;
+  } | null>(null);
+
+  return useMemo(() => {
+    if (!cacheRef.current || cacheRef.current.key !== cacheKey) {
+      cacheRef.current = { key: cacheKey, entries: new WeakMap() };
+    }
+    const { entries } = cacheRef.current;
+
+    return messages.map((msg, index) => {
+      const cached = entries.get(msg);
+      // Index-based fallback IDs change if the message moved
+      if (cached && (msg.id !== undefined || cached.index === index)) {
+        return cached.value;
+      }
+      const value = convert(msg, index);
+      entries.set(msg, { index, value });
+      return value;
+    });
+  }, [messages, cacheKey]);
+}
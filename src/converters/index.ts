@@ -1,25 +1,64 @@
 // AI SDK (Vercel) converter
-export { toUIMessages, usePillarChatUIMessages, type UsePillarChatUIMessagesReturn } from './ai-sdk';
+export { toUIMessages, fromUIMessages, usePillarChatUIMessages, type UsePillarChatUIMessagesReturn } from './ai-sdk';
+
+// AI SDK ChatTransport for useChat
+export {
+  createPillarChatTransport,
+  usePillarChatTransport,
+  type PillarChatTransportOptions,
+} from './ai-sdk-transport';
 
 // AG-UI protocol converter
-export { toAGUIMessages, usePillarChatAGUI, type UsePillarChatAGUIReturn } from './ag-ui';
+export { toAGUIMessages, fromAGUIMessages, usePillarChatAGUI, type UsePillarChatAGUIReturn } from './ag-ui';
+
+// AG-UI agent adapter (event stream)
+export { createPillarAGUIAgent, usePillarAGUIAgent } from './ag-ui-agent';
 
 // Simple { role, content } converter for API replay
-export { toSimpleMessages } from './simple';
+export { toSimpleMessages, fromSimpleMessages } from './simple';
+
+// Anthropic Messages and OpenAI Responses converters for API replay
+export { toAnthropicMessages } from './anthropic';
+export { toOpenAIResponsesInput } from './openai-responses';
+
+// Transcript export (Markdown, HTML, JSON)
+export {
+  exportTranscript,
+  downloadTranscript,
+  type TranscriptFormat,
+  type TranscriptExportOptions,
+} from './transcript';
 
 // Output types
 export type {
   ConverterOptions,
   PillarUIMessage,
   PillarUIMessagePart,
+  PillarUIToolPart,
+  PillarUIMessageChunk,
+  PillarChatTransport,
+  PillarChatTransportSendOptions,
+  TransportUIMessage,
   PillarAGUIMessage,
   AGUIUserMessage,
   AGUIAssistantMessage,
+  AGUIToolMessage,
+  AGUIToolCall,
   AGUIActivityMessage,
   AGUIReasoningMessage,
   AGUIInputContent,
   AGUITextInput,
   AGUIBinaryInput,
+  AGUIRunMessage,
+  AGUIRunAgentInput,
+  AGUIJsonPatchOperation,
+  AGUIEvent,
+  AGUIEventObserver,
+  PillarAGUIAgent,
   PillarSimpleMessage,
   SimpleContentPart,
+  AnthropicContentBlock,
+  AnthropicMessageParam,
+  OpenAIResponsesInputContent,
+  OpenAIResponsesInputItem,
 } from './types';
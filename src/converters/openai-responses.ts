@@ -0,0 +1,50 @@
+/**
+ * Converts PillarChatMessage[] to OpenAI Responses API `input` items.
+ *
+ * User messages become `input_text` / `input_image` content, assistant
+ * answers become assistant messages, and tool calls become
+ * `function_call` / `function_call_output` item pairs.
+ * Sources and progress events are omitted.
+ *
+ * Usage:
+ *   import { toOpenAIResponsesInput } from '@pillar-ai/react';
+ *   await openai.responses.create({ model, input: toOpenAIResponsesInput(pillarMessages) });
+ */
+
+import type { PillarChatMessage } from '../hooks/usePillarChat';
+import type { OpenAIResponsesInputContent, OpenAIResponsesInputItem } from './types';
+import { toolOutputText, withoutToolResultMessages } from './tool-calls';
+
+export function toOpenAIResponsesInput(
+  messages: PillarChatMessage[],
+): OpenAIResponsesInputItem[] {
+  return withoutToolResultMessages(messages).flatMap((msg): OpenAIResponsesInputItem[] => {
+    if (msg.role === 'user') {
+      const content: OpenAIResponsesInputContent[] = [];
+      if (msg.content) {
+        content.push({ type: 'input_text', text: msg.content });
+      }
+      for (const img of msg.images ?? []) {
+        content.push({ type: 'input_image', image_url: img.url, detail: img.detail ?? 'auto' });
+      }
+      return content.length ? [{ type: 'message', role: 'user', content }] : [];
+    }
+
+    const items: OpenAIResponsesInputItem[] = [];
+    for (const call of msg.toolCalls ?? []) {
+      items.push(
+        {
+          type: 'function_call',
+          call_id: call.toolCallId,
+          name: call.toolName,
+          arguments: JSON.stringify(call.input),
+        },
+        { type: 'function_call_output', call_id: call.toolCallId, output: toolOutputText(call) },
+      );
+    }
+    if (msg.content) {
+      items.push({ type: 'message', role: 'assistant', content: msg.content });
+    }
+    return items;
+  });
+}
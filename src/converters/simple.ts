@@ -2,32 +2,171 @@
  * Converts PillarChatMessage[] to simple { role, content } messages
  * for replaying conversations through OpenAI / Anthropic APIs.
  *
- * Images become OpenAI-style multimodal content parts.
+ * Images become OpenAI-style multimodal content parts; documents become
+ * `file` parts carrying their URL (a `data:` URL of the text for documents
+ * read in the browser), name and MIME type.
+ * Tool calls become a tool_use turn followed by a user turn with the
+ * matching tool_result blocks, before the assistant's answer text.
  * Sources and progress events are omitted.
+ *
+ * `fromSimpleMessages` reverses the conversion.
  */
 
-import type { PillarChatMessage } from '../hooks/usePillarChat';
+import type { ChatImage } from '@pillar-ai/sdk';
+import type { PillarChatFile, PillarChatMessage } from '../hooks/usePillarChat';
 import type { PillarSimpleMessage, SimpleContentPart } from './types';
+import { parseToolOutput, toolOutputText, withoutToolResultMessages } from './tool-calls';
+import { fileFromUrl, fileUrl } from '../utils/attachments';
 
 export function toSimpleMessages(
   messages: PillarChatMessage[],
 ): PillarSimpleMessage[] {
-  return messages.map((msg) => {
-    if (!msg.images?.length) {
-      return { role: msg.role, content: msg.content };
+  return withoutToolResultMessages(messages).flatMap((msg): PillarSimpleMessage[] => {
+    if (msg.role === 'assistant' && msg.toolCalls?.length) {
+      return buildToolTurns(msg);
+    }
+
+    if (!msg.images?.length && !msg.files?.length) {
+      return [{ role: msg.role, content: msg.content }];
     }
 
     const parts: SimpleContentPart[] = [
       { type: 'text', text: msg.content },
     ];
 
-    for (const img of msg.images) {
+    for (const img of msg.images ?? []) {
       parts.push({
         type: 'image_url',
         image_url: { url: img.url, detail: img.detail },
       });
     }
 
-    return { role: msg.role, content: parts };
+    for (const file of msg.files ?? []) {
+      parts.push({
+        type: 'file',
+        file: { url: fileUrl(file), filename: file.name, media_type: file.mediaType },
+      });
+    }
+
+    return [{ role: msg.role, content: parts }];
   });
 }
+
+function buildToolTurns(msg: PillarChatMessage): PillarSimpleMessage[] {
+  const calls = msg.toolCalls ?? [];
+  const turns: PillarSimpleMessage[] = [
+    {
+      role: 'assistant',
+      content: calls.map((call) => ({
+        type: 'tool_use',
+        id: call.toolCallId,
+        name: call.toolName,
+        input: call.input,
+      })),
+    },
+    {
+      role: 'user',
+      content: calls.map((call) => ({
+        type: 'tool_result',
+        tool_use_id: call.toolCallId,
+        content: toolOutputText(call),
+        ...(call.state === 'complete' ? {} : { is_error: true }),
+      })),
+    },
+  ];
+
+  if (msg.content) {
+    turns.push({ role: 'assistant', content: msg.content });
+  }
+
+  return turns;
+}
+
+/**
+ * Convert simple { role, content } messages back to PillarChatMessage[],
+ * e.g. to seed `usePillarChat({ initialMessages })`.
+ *
+ * A tool_use turn, the user turn with its tool_result blocks, and the
+ * assistant answer that follows are folded back into one assistant
+ * message with `toolCalls`. System messages are dropped.
+ */
+export function fromSimpleMessages(
+  messages: Array<PillarSimpleMessage | { role: 'system'; content: string }>,
+): PillarChatMessage[] {
+  const result: PillarChatMessage[] = [];
+
+  for (const msg of messages) {
+    if (msg.role === 'system') continue;
+
+    const parts: SimpleContentPart[] =
+      typeof msg.content === 'string' ? [{ type: 'text', text: msg.content }] : msg.content;
+    let text = '';
+    const images: ChatImage[] = [];
+    const files: PillarChatFile[] = [];
+    const toolUses: Extract<SimpleContentPart, { type: 'tool_use' }>[] = [];
+    const toolResults: Extract<SimpleContentPart, { type: 'tool_result' }>[] = [];
+
+    for (const part of parts) {
+      if (part.type === 'text') text += part.text;
+      else if (part.type === 'image_url') {
+        images.push({
+          url: part.image_url.url,
+          ...(part.image_url.detail === 'low' || part.image_url.detail === 'high'
+            ? { detail: part.image_url.detail }
+            : {}),
+        });
+      } else if (part.type === 'file') {
+        files.push(fileFromUrl(part.file.url, part.file.filename, part.file.media_type));
+      } else if (part.type === 'tool_use') toolUses.push(part);
+      else toolResults.push(part);
+    }
+
+    const last = result[result.length - 1];
+    // An assistant turn that so far only holds tool calls
+    const openToolTurn = last?.role === 'assistant' && !!last.toolCalls?.length && !last.content
+      ? last
+      : undefined;
+
+    if (msg.role === 'user' && toolResults.length && openToolTurn) {
+      for (const toolResult of toolResults) {
+        const call = openToolTurn.toolCalls!.find((t) => t.toolCallId === toolResult.tool_use_id);
+        if (!call) continue;
+        if (toolResult.is_error) {
+          call.state = 'error';
+          call.error = toolResult.content;
+        } else {
+          call.output = parseToolOutput(toolResult.content);
+        }
+      }
+      if (!text && !images.length && !files.length) continue;
+    }
+
+    if (msg.role === 'assistant' && openToolTurn) {
+      openToolTurn.content = text;
+      openToolTurn.toolCalls = [...openToolTurn.toolCalls!, ...toolUses.map(toToolCall)];
+      continue;
+    }
+
+    result.push({
+      role: msg.role,
+      content: text,
+      ...(images.length ? { images } : {}),
+      ...(files.length ? { files } : {}),
+      ...(toolUses.length ? { toolCalls: toolUses.map(toToolCall) } : {}),
+    });
+  }
+
+  return result;
+}
+
+function toToolCall(
+  part: Extract<SimpleContentPart, { type: 'tool_use' }>,
+): NonNullable<PillarChatMessage['toolCalls']>[number] {
+  return {
+    type: 'tool-call',
+    toolCallId: part.id,
+    toolName: part.name,
+    input: part.input,
+    state: 'complete',
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * Shared helpers for converting PillarToolCallPart to the tool formats of
+ * the other converters.
+ */
+
+import type { PillarChatMessage, PillarToolCallPart } from '../hooks/usePillarChat';
+
+/**
+ * Drop the user messages inline_ui cards send with `sendResult`. The result
+ * is already the tool call's `output`; converted, the message would repeat
+ * it as raw JSON written by the user.
+ */
+export function withoutToolResultMessages(messages: PillarChatMessage[]): PillarChatMessage[] {
+  if (!messages.some((m) => m.toolResultFor)) return messages;
+  return messages.filter((m) => !m.toolResultFor);
+}
+
+/** Whether the tool call has reached a final state. */
+export function isToolCallSettled(part: PillarToolCallPart): boolean {
+  return part.state === 'complete' || part.state === 'error' || part.state === 'cancelled';
+}
+
+/** Message describing why a tool call has no output. */
+export function toolCallErrorText(part: PillarToolCallPart): string {
+  if (part.state === 'cancelled') return 'The user cancelled this tool call.';
+  if (part.state === 'error') return part.error ?? 'The tool call failed.';
+  return 'The tool call did not complete.';
+}
+
+/** The tool output as text, for formats that only carry strings. */
+export function toolOutputText(part: PillarToolCallPart): string {
+  if (part.state !== 'complete') return toolCallErrorText(part);
+  if (part.output === undefined) return '';
+  if (typeof part.output === 'string') return part.output;
+  try {
+    return JSON.stringify(part.output);
+  } catch {
+    return String(part.output);
+  }
+}
+
+/** Parse tool output stored as text back to a value (JSON when possible). */
+export function parseToolOutput(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * Exports PillarChatMessage[] as a human-readable transcript, e.g. to attach
+ * a copilot conversation to a support ticket.
+ *
+ * Usage:
+ *   import { exportTranscript } from '@pillar-ai/react';
+ *   const markdown = exportTranscript(messages, { format: 'markdown' });
+ *
+ * Or from the hook:
+ *   const { download } = usePillarChat();
+ *   download({ format: 'html' });
+ */
+
+import type { PillarChatMessage } from '../hooks/usePillarChat';
+import type { ConverterOptions } from './types';
+import { toolOutputText, withoutToolResultMessages } from './tool-calls';
+
+export type TranscriptFormat = 'markdown' | 'html' | 'json';
+
+export interface TranscriptExportOptions extends ConverterOptions {
+  format: TranscriptFormat;
+  /** Heading of the transcript (default: "Chat transcript"). */
+  title?: string;
+  /** Include reasoning, progress events and tool calls (default: false). */
+  includeProgress?: boolean;
+}
+
+export const TRANSCRIPT_FILE_EXTENSIONS: Record<TranscriptFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  json: 'json',
+};
+
+const MIME_TYPES: Record<TranscriptFormat, string> = {
+  markdown: 'text/markdown',
+  html: 'text/html',
+  json: 'application/json',
+};
+
+/** A message reduced to what a transcript shows. */
+interface TranscriptEntry {
+  id?: string;
+  role: 'user' | 'assistant';
+  createdAt?: string;
+  content: string;
+  images: string[];
+  sources: Array<{ title: string; url?: string }>;
+  /** Reasoning and progress lines, only with `includeProgress`. */
+  steps?: string[];
+}
+
+function toEntry(msg: PillarChatMessage, options: TranscriptExportOptions): TranscriptEntry {
+  const entry: TranscriptEntry = {
+    id: msg.id,
+    role: msg.role,
+    createdAt: msg.createdAt !== undefined ? new Date(msg.createdAt).toISOString() : undefined,
+    content: msg.content,
+    images: (msg.images ?? []).map((img) => img.url),
+    sources: (msg.sources ?? []).map((source) => ({
+      title: source.title,
+      url: options.helpCenterUrl
+        ? `${options.helpCenterUrl}/articles/${source.slug}`
+        : undefined,
+    })),
+  };
+
+  if (options.includeProgress) {
+    const steps: string[] = [];
+    for (const event of msg.progressEvents ?? []) {
+      if (event.kind === 'tool_progress') continue;
+      if (event.kind === 'thinking' && event.text) {
+        steps.push(`Thinking: ${event.text}`);
+      } else if (event.label) {
+        steps.push(event.label);
+      }
+    }
+    for (const call of msg.toolCalls ?? []) {
+      const output = toolOutputText(call);
+      steps.push(
+        `Tool ${call.toolName}(${JSON.stringify(call.input)}) → ${call.state}` +
+          (output ? `: ${output}` : ''),
+      );
+    }
+    entry.steps = steps;
+  }
+
+  return entry;
+}
+
+function roleLabel(role: TranscriptEntry['role']): string {
+  return role === 'user' ? 'User' : 'Assistant';
+}
+
+function toMarkdown(title: string, entries: TranscriptEntry[]): string {
+  const blocks = [`# ${title}`];
+
+  for (const entry of entries) {
+    const lines = [
+      `**${roleLabel(entry.role)}**${entry.createdAt ? ` · ${entry.createdAt}` : ''}`,
+      '',
+    ];
+    if (entry.steps?.length) {
+      lines.push(...entry.steps.map((step) => `> ${step.replace(/\n/g, '\n> ')}`), '');
+    }
+    if (entry.content) {
+      lines.push(entry.content, '');
+    }
+    for (const url of entry.images) {
+      lines.push(`![Image](${url})`, '');
+    }
+    if (entry.sources.length) {
+      lines.push('Sources:');
+      for (const source of entry.sources) {
+        lines.push(source.url ? `- [${source.title}](${source.url})` : `- ${source.title}`);
+      }
+      lines.push('');
+    }
+    blocks.push(lines.join('\n').trimEnd());
+  }
+
+  return `${blocks.join('\n\n---\n\n')}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function toHtml(title: string, entries: TranscriptEntry[]): string {
+  const articles = entries.map((entry) => {
+    const parts = [
+      `<header><strong>${roleLabel(entry.role)}</strong>` +
+        (entry.createdAt
+          ? ` <time datetime="${entry.createdAt}">${entry.createdAt}</time>`
+          : '') +
+        '</header>',
+    ];
+    if (entry.steps?.length) {
+      parts.push(
+        `<ul class="steps">${entry.steps.map((step) => `<li>${escapeHtml(step)}</li>`).join('')}</ul>`,
+      );
+    }
+    if (entry.content) {
+      parts.push(`<div class="content">${escapeHtml(entry.content)}</div>`);
+    }
+    for (const url of entry.images) {
+      parts.push(`<img src="${escapeHtml(url)}" alt="Attached image">`);
+    }
+    if (entry.sources.length) {
+      const items = entry.sources.map((source) =>
+        source.url
+          ? `<li><a href="${escapeHtml(source.url)}">${escapeHtml(source.title)}</a></li>`
+          : `<li>${escapeHtml(source.title)}</li>`,
+      );
+      parts.push(`<p>Sources:</p><ul class="sources">${items.join('')}</ul>`);
+    }
+    return `<article data-role="${entry.role}">${parts.join('')}</article>`;
+  });
+
+  return [
+    '<!DOCTYPE html>',
+    '<html><head><meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    '<style>body{font-family:sans-serif;max-width:48rem;margin:2rem auto}' +
+      'article{border-top:1px solid #ddd;padding:1rem 0}' +
+      '.content{white-space:pre-wrap}.steps{color:#666}img{max-width:100%}</style>',
+    '</head><body>',
+    `<h1>${escapeHtml(title)}</h1>`,
+    ...articles,
+    '</body></html>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Render messages as a Markdown, HTML or JSON transcript.
+ * Sources become links when `helpCenterUrl` is set.
+ */
+export function exportTranscript(
+  messages: PillarChatMessage[],
+  options: TranscriptExportOptions,
+): string {
+  const title = options.title ?? 'Chat transcript';
+  const entries = withoutToolResultMessages(messages).map((msg) => toEntry(msg, options));
+
+  switch (options.format) {
+    case 'markdown':
+      return toMarkdown(title, entries);
+    case 'html':
+      return toHtml(title, entries);
+    case 'json':
+      return JSON.stringify(
+        { title, exportedAt: new Date().toISOString(), messages: entries },
+        null,
+        2,
+      );
+  }
+}
+
+/**
+ * Export a transcript and save it as a file through the browser.
+ */
+export function downloadTranscript(
+  messages: PillarChatMessage[],
+  options: TranscriptExportOptions & { filename?: string },
+): void {
+  const blob = new Blob([exportTranscript(messages, options)], {
+    type: `${MIME_TYPES[options.format]};charset=utf-8`,
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = options.filename ?? `chat-transcript.${TRANSCRIPT_FILE_EXTENSIONS[options.format]}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a tick to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
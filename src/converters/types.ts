@@ -21,12 +21,23 @@ export interface ConverterOptions {
 // AI SDK UIMessage — structurally compatible
 // ---------------------------------------------------------------------------
 
+/** AI SDK static tool part (`tool-<name>`). */
+export interface PillarUIToolPart {
+  type: `tool-${string}`;
+  toolCallId: string;
+  state: 'input-available' | 'output-available' | 'output-error';
+  input: unknown;
+  output?: unknown;
+  errorText?: string;
+}
+
 export type PillarUIMessagePart =
   | { type: 'text'; text: string }
-  | { type: 'file'; url: string; mediaType: string }
+  | { type: 'file'; url: string; mediaType: string; filename?: string }
   | { type: 'source-url'; sourceId: string; url: string; title?: string }
   | { type: 'step-start' }
-  | { type: 'reasoning'; text: string };
+  | { type: 'reasoning'; text: string }
+  | PillarUIToolPart;
 
 export interface PillarUIMessage {
   id: string;
@@ -36,6 +47,78 @@ export interface PillarUIMessage {
   createdAt: Date;
 }
 
+// ---------------------------------------------------------------------------
+// AI SDK ChatTransport — structurally compatible
+// ---------------------------------------------------------------------------
+
+/**
+ * The parts of an AI SDK UIMessage read by the transport and
+ * `fromUIMessages`. Any AI SDK `UIMessage` is assignable to it.
+ */
+export interface TransportUIMessage {
+  id: string;
+  role: 'system' | 'user' | 'assistant';
+  createdAt?: Date;
+  parts: Array<{
+    type: string;
+    text?: string;
+    url?: string;
+    mediaType?: string;
+    filename?: string;
+    sourceId?: string;
+    title?: string;
+    toolCallId?: string;
+    toolName?: string;
+    state?: string;
+    input?: unknown;
+    output?: unknown;
+    errorText?: string;
+  }>;
+}
+
+/** Subset of AI SDK `UIMessageChunk` emitted by the Pillar transport. */
+export type PillarUIMessageChunk =
+  | { type: 'start'; messageId?: string }
+  | { type: 'start-step' }
+  | { type: 'finish-step' }
+  | { type: 'text-start'; id: string }
+  | { type: 'text-delta'; id: string; delta: string }
+  | { type: 'text-end'; id: string }
+  | { type: 'reasoning-start'; id: string }
+  | { type: 'reasoning-delta'; id: string; delta: string }
+  | { type: 'reasoning-end'; id: string }
+  | { type: 'source-url'; sourceId: string; url: string; title?: string }
+  | { type: 'source-document'; sourceId: string; mediaType: string; title: string }
+  | {
+      type: 'tool-input-available';
+      toolCallId: string;
+      toolName: string;
+      input: unknown;
+      providerExecuted?: boolean;
+    }
+  | { type: 'tool-output-available'; toolCallId: string; output: unknown; providerExecuted?: boolean }
+  | { type: 'tool-output-error'; toolCallId: string; errorText: string; providerExecuted?: boolean }
+  | { type: `data-${string}`; id?: string; data: unknown; transient?: boolean }
+  | { type: 'error'; errorText: string }
+  | { type: 'finish' };
+
+export interface PillarChatTransportSendOptions {
+  trigger: 'submit-message' | 'regenerate-message';
+  chatId: string;
+  messageId: string | undefined;
+  messages: TransportUIMessage[];
+  abortSignal: AbortSignal | undefined;
+  headers?: Record<string, string> | Headers;
+  body?: object;
+  metadata?: unknown;
+}
+
+/** Structurally compatible with AI SDK `ChatTransport<UIMessage>`. */
+export interface PillarChatTransport {
+  sendMessages(options: PillarChatTransportSendOptions): Promise<ReadableStream<PillarUIMessageChunk>>;
+  reconnectToStream(options: { chatId: string }): Promise<ReadableStream<PillarUIMessageChunk> | null>;
+}
+
 // ---------------------------------------------------------------------------
 // AG-UI Message — structurally compatible
 // ---------------------------------------------------------------------------
@@ -50,6 +133,7 @@ export interface AGUIBinaryInput {
   mimeType: string;
   url?: string;
   data?: string;
+  filename?: string;
 }
 
 export type AGUIInputContent = AGUITextInput | AGUIBinaryInput;
@@ -60,10 +144,25 @@ export interface AGUIUserMessage {
   content: string | AGUIInputContent[];
 }
 
+export interface AGUIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
 export interface AGUIAssistantMessage {
   id: string;
   role: 'assistant';
   content?: string;
+  toolCalls?: AGUIToolCall[];
+}
+
+export interface AGUIToolMessage {
+  id: string;
+  role: 'tool';
+  content: string;
+  toolCallId: string;
+  error?: string;
 }
 
 export interface AGUIActivityMessage {
@@ -82,18 +181,119 @@ export interface AGUIReasoningMessage {
 export type PillarAGUIMessage =
   | AGUIUserMessage
   | AGUIAssistantMessage
+  | AGUIToolMessage
   | AGUIActivityMessage
   | AGUIReasoningMessage;
 
+// ---------------------------------------------------------------------------
+// AG-UI agent events — structurally compatible
+// ---------------------------------------------------------------------------
+
+/**
+ * The parts of an AG-UI `Message` read by the agent adapter and
+ * `fromAGUIMessages`. Any AG-UI `Message` is assignable to it.
+ */
+export interface AGUIRunMessage {
+  id: string;
+  role: 'user' | 'assistant' | 'system' | 'developer' | 'tool' | 'activity' | 'reasoning';
+  content?: string | AGUIInputContent[] | Record<string, unknown>;
+  toolCalls?: AGUIToolCall[];
+  toolCallId?: string;
+  error?: string;
+  activityType?: string;
+}
+
+/** Structural subset of AG-UI `RunAgentInput`. */
+export interface AGUIRunAgentInput {
+  threadId: string;
+  runId: string;
+  messages: AGUIRunMessage[];
+  state?: unknown;
+  context?: Array<{ description: string; value: string }>;
+  tools?: unknown[];
+  forwardedProps?: unknown;
+}
+
+/** A JSON Patch (RFC 6902) operation, as carried by `STATE_DELTA`. */
+export interface AGUIJsonPatchOperation {
+  op: 'add' | 'replace' | 'remove';
+  path: string;
+  value?: unknown;
+}
+
+/** Subset of AG-UI `BaseEvent` types emitted by the Pillar agent adapter. */
+export type AGUIEvent =
+  | { type: 'RUN_STARTED'; threadId: string; runId: string }
+  | { type: 'RUN_FINISHED'; threadId: string; runId: string; result?: unknown }
+  | { type: 'RUN_ERROR'; message: string; code?: string }
+  | { type: 'TEXT_MESSAGE_START'; messageId: string; role: 'assistant' }
+  | { type: 'TEXT_MESSAGE_CONTENT'; messageId: string; delta: string }
+  | { type: 'TEXT_MESSAGE_END'; messageId: string }
+  | { type: 'TOOL_CALL_START'; toolCallId: string; toolCallName: string; parentMessageId?: string }
+  | { type: 'TOOL_CALL_ARGS'; toolCallId: string; delta: string }
+  | { type: 'TOOL_CALL_END'; toolCallId: string }
+  | { type: 'TOOL_CALL_RESULT'; messageId: string; toolCallId: string; content: string; role: 'tool' }
+  | { type: 'STATE_SNAPSHOT'; snapshot: unknown }
+  | { type: 'STATE_DELTA'; delta: AGUIJsonPatchOperation[] };
+
+/** Observer accepted by `PillarAGUIAgent.run().subscribe` (an RxJS subscriber works). */
+export interface AGUIEventObserver {
+  next: (event: AGUIEvent) => void;
+  error: (error: unknown) => void;
+  complete: () => void;
+}
+
+export interface PillarAGUIAgent {
+  /**
+   * Start a run. Events flow once subscribed; unsubscribing aborts the run.
+   * Wrap in an RxJS `Observable` to plug into an AG-UI `AbstractAgent`.
+   */
+  run(input: AGUIRunAgentInput): {
+    subscribe(observer: Partial<AGUIEventObserver>): { unsubscribe(): void };
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Simple CoreMessage — for OpenAI/Anthropic API replay
 // ---------------------------------------------------------------------------
 
 export type SimpleContentPart =
   | { type: 'text'; text: string }
-  | { type: 'image_url'; image_url: { url: string; detail?: string } };
+  | { type: 'image_url'; image_url: { url: string; detail?: string } }
+  | { type: 'file'; file: { url: string; filename: string; media_type: string } }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; tool_use_id: string; content: string; is_error?: boolean };
 
 export interface PillarSimpleMessage {
   role: 'user' | 'assistant';
   content: string | SimpleContentPart[];
 }
+
+// ---------------------------------------------------------------------------
+// Anthropic Messages API — structurally compatible
+// ---------------------------------------------------------------------------
+
+export type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'url'; url: string } }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; tool_use_id: string; content: string; is_error?: boolean };
+
+export interface AnthropicMessageParam {
+  role: 'user' | 'assistant';
+  content: AnthropicContentBlock[];
+}
+
+// ---------------------------------------------------------------------------
+// OpenAI Responses API input — structurally compatible
+// ---------------------------------------------------------------------------
+
+export type OpenAIResponsesInputContent =
+  | { type: 'input_text'; text: string }
+  | { type: 'input_image'; image_url: string; detail: 'low' | 'high' | 'auto' };
+
+export type OpenAIResponsesInputItem =
+  | { type: 'message'; role: 'user'; content: OpenAIResponsesInputContent[] }
+  | { type: 'message'; role: 'assistant'; content: string }
+  | { type: 'function_call'; call_id: string; name: string; arguments: string }
+  | { type: 'function_call_output'; call_id: string; output: string };
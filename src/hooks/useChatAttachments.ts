@@ -0,0 +1,450 @@
+/**
+ * useChatAttachments Hook
+ * Validate, downscale and upload attachments for usePillarChat messages
+ */
+
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ClipboardEvent as ReactClipboardEvent,
+  type DragEvent as ReactDragEvent,
+} from 'react';
+import type { PillarChatFile, PillarChatImage } from './usePillarChat';
+import { isImageMediaType, mediaTypeOf, prepareChatFile } from '../utils/attachments';
+
+/** Image types the agent accepts by default. */
+export const DEFAULT_ATTACHMENT_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+/**
+ * Document types to add to `accept` for PDF, CSV, text and JSON files.
+ * PDFs need the `extractText` option of `usePillarChat`.
+ */
+export const DOCUMENT_ATTACHMENT_TYPES = [
+  'application/pdf',
+  'text/csv',
+  'text/tab-separated-values',
+  'text/plain',
+  'text/markdown',
+  'application/json',
+];
+
+export type PillarAttachmentStatus = 'processing' | 'uploading' | 'ready' | 'error';
+
+export interface PillarChatAttachment {
+  id: string;
+  /** The file as the user picked it. */
+  file: File;
+  /** Local object URL for a thumbnail while the upload runs. */
+  previewUrl: string;
+  status: PillarAttachmentStatus;
+  /**
+   * Coarse progress from 0 to 1: processing is the first half, uploading
+   * the second. The upload API doesn't report bytes sent.
+   */
+  progress: number;
+  /** The uploaded file, once `status` is `'ready'`. */
+  uploaded?: PillarChatFile;
+  /** Why the upload failed, when `status` is `'error'`. */
+  error?: Error;
+}
+
+export interface UseChatAttachmentsOptions {
+  /**
+   * The chat to upload through. Pass the return value of
+   * `usePillarChat()`; defaults to the SDK's API client, which can't
+   * read PDFs.
+   */
+  chat?: { uploadFile: (file: File) => Promise<PillarChatFile> };
+  /**
+   * Accepted MIME types (default: PNG, JPEG, GIF and WebP). Add
+   * `DOCUMENT_ATTACHMENT_TYPES` to accept documents.
+   */
+  accept?: string[];
+  /** Largest file accepted after downscaling, in bytes (default: 10 MB). */
+  maxSize?: number;
+  /** Attachments per message (default: 4). */
+  maxFiles?: number;
+  /**
+   * Images wider or taller than this are scaled down on a canvas before
+   * upload, in pixels (default: 2048). Animated GIFs are left untouched.
+   * Set to `0` to upload originals.
+   */
+  maxDimension?: number;
+  /** Called when a file is rejected or its upload fails. */
+  onError?: (error: Error, file: File) => void;
+}
+
+export interface UseChatAttachmentsReturn {
+  attachments: PillarChatAttachment[];
+  /** Uploaded images, ready for `sendMessage(text, { images })`. */
+  images: PillarChatImage[];
+  /** Uploaded documents, ready for `sendMessage(text, { files })`. */
+  files: PillarChatFile[];
+  /** True while any attachment is processing or uploading. */
+  isUploading: boolean;
+  /** Validate and upload files, e.g. from an `<input type="file">`. */
+  addFiles: (files: FileList | File[] | null | undefined) => void;
+  /** Remove an attachment, cancelling its upload if it is still running. */
+  remove: (id: string) => void;
+  /** Remove all attachments and cancel running uploads. */
+  clear: () => void;
+  /**
+   * Return the uploaded images and documents and remove them from the
+   * list, leaving attachments that are still uploading or failed. The
+   * result can be passed straight to `sendMessage(text, take())`.
+   */
+  take: () => { images: PillarChatImage[]; files: PillarChatFile[] };
+  /** Paste handler for the message input. Only intercepts pasted files. */
+  onPaste: (event: ReactClipboardEvent | ClipboardEvent) => void;
+  /** Spread onto the element that accepts dropped files. */
+  dropzoneProps: {
+    onDragEnter: (event: ReactDragEvent) => void;
+    onDragOver: (event: ReactDragEvent) => void;
+    onDragLeave: (event: ReactDragEvent) => void;
+    onDrop: (event: ReactDragEvent) => void;
+  };
+  /** True while files are dragged over the dropzone. */
+  isDragging: boolean;
+}
+
+const DEFAULT_MAX_SIZE = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 4;
+const DEFAULT_MAX_DIMENSION = 2048;
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`
+    : `${Math.round(bytes / 1024)} KB`;
+}
+
+function loadImage(file: File): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Could not read image "${file.name}"`));
+    };
+    img.src = url;
+  });
+}
+
+/**
+ * Scale an image down so neither side exceeds `maxDimension`. Returns the
+ * original file when it is already small enough, is a GIF (which may be
+ * animated) or can't be decoded.
+ */
+async function downscaleImage(file: File, maxDimension: number): Promise<File> {
+  if (
+    maxDimension <= 0 ||
+    !isImageMediaType(file.type) ||
+    file.type === 'image/gif' ||
+    typeof document === 'undefined'
+  ) {
+    return file;
+  }
+
+  let img: HTMLImageElement;
+  try {
+    img = await loadImage(file);
+  } catch {
+    return file;
+  }
+
+  const scale = maxDimension / Math.max(img.naturalWidth, img.naturalHeight);
+  if (scale >= 1) return file;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.naturalWidth * scale);
+  canvas.height = Math.round(img.naturalHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return file;
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  // Keep PNG and WebP for transparency; re-encode everything else as JPEG
+  const type = file.type === 'image/png' || file.type === 'image/webp' ? file.type : 'image/jpeg';
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, 0.9));
+  if (!blob || blob.size >= file.size) return file;
+
+  return new File([blob], file.name, { type, lastModified: file.lastModified });
+}
+
+function filesFromDataTransfer(data: DataTransfer | null): File[] {
+  if (!data) return [];
+  if (data.files?.length) return Array.from(data.files);
+  return Array.from(data.items ?? [])
+    .filter((item) => item.kind === 'file')
+    .map((item) => item.getAsFile())
+    .filter((file): file is File => file !== null);
+}
+
+function isListed(attachments: PillarChatAttachment[], id: string): boolean {
+  return attachments.some((a) => a.id === id);
+}
+
+/** Uploaded attachments as `sendMessage` images and files. */
+function splitUploads(ready: PillarChatAttachment[]): {
+  images: PillarChatImage[];
+  files: PillarChatFile[];
+} {
+  const images: PillarChatImage[] = [];
+  const files: PillarChatFile[] = [];
+  for (const { uploaded } of ready) {
+    if (!uploaded) continue;
+    if (uploaded.url && isImageMediaType(uploaded.mediaType)) {
+      images.push({ url: uploaded.url, path: uploaded.path, mediaType: uploaded.mediaType });
+    } else {
+      files.push(uploaded);
+    }
+  }
+  return { images, files };
+}
+
+function hasFiles(event: ReactDragEvent): boolean {
+  return Array.from(event.dataTransfer?.types ?? []).includes('Files');
+}
+
+/**
+ * Attachments for a custom chat input: paste, drag-and-drop and file
+ * picking, with type and size checks, client-side image downscaling and
+ * upload status per file.
+ *
+ * @example
+ * ```tsx
+ * function Composer() {
+ *   const chat = usePillarChat();
+ *   const attachments = useChatAttachments({ chat });
+ *   const [text, setText] = useState('');
+ *
+ *   const send = () => {
+ *     chat.sendMessage(text, attachments.take());
+ *     setText('');
+ *   };
+ *
+ *   return (
+ *     <div {...attachments.dropzoneProps}>
+ *       {attachments.attachments.map((a) => (
+ *         <img key={a.id} src={a.previewUrl} data-status={a.status} alt="" />
+ *       ))}
+ *       <textarea value={text} onChange={(e) => setText(e.target.value)} onPaste={attachments.onPaste} />
+ *       <button onClick={send} disabled={attachments.isUploading}>Send</button>
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useChatAttachments(options: UseChatAttachmentsOptions = {}): UseChatAttachmentsReturn {
+  const {
+    accept = DEFAULT_ATTACHMENT_TYPES,
+    maxSize = DEFAULT_MAX_SIZE,
+    maxFiles = DEFAULT_MAX_FILES,
+    maxDimension = DEFAULT_MAX_DIMENSION,
+  } = options;
+
+  const [attachments, setAttachments] = useState<PillarChatAttachment[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+
+  // Mirrors for async callbacks and cleanup
+  const attachmentsRef = useRef<PillarChatAttachment[]>([]);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const dragDepthRef = useRef(0);
+
+  const commit = useCallback((update: (prev: PillarChatAttachment[]) => PillarChatAttachment[]) => {
+    attachmentsRef.current = update(attachmentsRef.current);
+    setAttachments(attachmentsRef.current);
+  }, []);
+
+  const patch = useCallback(
+    (id: string, changes: Partial<PillarChatAttachment>) => {
+      commit((prev) => prev.map((a) => (a.id === id ? { ...a, ...changes } : a)));
+    },
+    [commit],
+  );
+
+  const fail = useCallback(
+    (id: string, file: File, error: Error) => {
+      patch(id, { status: 'error', error });
+      optionsRef.current.onError?.(error, file);
+    },
+    [patch],
+  );
+
+  const upload = useCallback(
+    async (attachment: PillarChatAttachment) => {
+      const { id, file } = attachment;
+      try {
+        const prepared = await downscaleImage(file, maxDimension);
+        if (!isListed(attachmentsRef.current, id)) return;
+
+        if (prepared.size > maxSize) {
+          fail(id, file, new Error(`"${file.name}" is larger than ${formatBytes(maxSize)}`));
+          return;
+        }
+
+        patch(id, { status: 'uploading', progress: 0.5 });
+
+        const chat = optionsRef.current.chat;
+        const uploaded = await (chat ? chat.uploadFile(prepared) : prepareChatFile(prepared));
+
+        // Removed while uploading: the request can't be aborted, so drop the result
+        if (!isListed(attachmentsRef.current, id)) return;
+        patch(id, {
+          status: 'ready',
+          progress: 1,
+          uploaded,
+        });
+      } catch (err) {
+        if (!isListed(attachmentsRef.current, id)) return;
+        fail(id, file, err instanceof Error ? err : new Error(String(err)));
+      }
+    },
+    [maxDimension, maxSize, patch, fail],
+  );
+
+  const addFiles = useCallback(
+    (files: FileList | File[] | null | undefined) => {
+      if (!files?.length) return;
+
+      const added: PillarChatAttachment[] = [];
+      let count = attachmentsRef.current.filter((a) => a.status !== 'error').length;
+
+      for (const file of Array.from(files)) {
+        const attachment: PillarChatAttachment = {
+          id: crypto.randomUUID(),
+          file,
+          previewUrl: URL.createObjectURL(file),
+          status: 'processing',
+          progress: 0,
+        };
+
+        const mediaType = mediaTypeOf(file);
+        // Only images can shrink before upload
+        const isFinalSize = maxDimension <= 0 || !isImageMediaType(mediaType);
+
+        let error: Error | undefined;
+        if (!accept.includes(mediaType)) {
+          error = new Error(`"${file.name}" is not a supported file type`);
+        } else if (count >= maxFiles) {
+          error = new Error(`You can attach up to ${maxFiles} files`);
+        } else if (isFinalSize && file.size > maxSize) {
+          error = new Error(`"${file.name}" is larger than ${formatBytes(maxSize)}`);
+        }
+
+        if (error) {
+          // Rejected files aren't listed; the caller decides how to show the error
+          URL.revokeObjectURL(attachment.previewUrl);
+          optionsRef.current.onError?.(error, file);
+          continue;
+        }
+
+        count++;
+        added.push(attachment);
+      }
+
+      if (added.length === 0) return;
+      commit((prev) => [...prev, ...added]);
+      added.forEach((attachment) => void upload(attachment));
+    },
+    [accept, maxFiles, maxDimension, maxSize, commit, upload],
+  );
+
+  const remove = useCallback(
+    (id: string) => {
+      const attachment = attachmentsRef.current.find((a) => a.id === id);
+      if (!attachment) return;
+      URL.revokeObjectURL(attachment.previewUrl);
+      commit((prev) => prev.filter((a) => a.id !== id));
+    },
+    [commit],
+  );
+
+  const clear = useCallback(() => {
+    attachmentsRef.current.forEach((a) => URL.revokeObjectURL(a.previewUrl));
+    commit(() => []);
+  }, [commit]);
+
+  const take = useCallback(() => {
+    const ready = attachmentsRef.current.filter((a) => a.status === 'ready' && a.uploaded);
+    ready.forEach((a) => URL.revokeObjectURL(a.previewUrl));
+    commit((prev) => prev.filter((a) => !ready.includes(a)));
+    return splitUploads(ready);
+  }, [commit]);
+
+  // Release previews when the component goes away
+  useEffect(
+    () => () => {
+      attachmentsRef.current.forEach((a) => URL.revokeObjectURL(a.previewUrl));
+      attachmentsRef.current = [];
+    },
+    [],
+  );
+
+  const onPaste = useCallback(
+    (event: ReactClipboardEvent | ClipboardEvent) => {
+      const files = filesFromDataTransfer(event.clipboardData);
+      if (files.length === 0) return;
+      // Keep the file name out of the text input
+      event.preventDefault();
+      addFiles(files);
+    },
+    [addFiles],
+  );
+
+  const dropzoneProps = useMemo(
+    () => ({
+      onDragEnter: (event: ReactDragEvent) => {
+        if (!hasFiles(event)) return;
+        event.preventDefault();
+        dragDepthRef.current++;
+        setIsDragging(true);
+      },
+      onDragOver: (event: ReactDragEvent) => {
+        if (!hasFiles(event)) return;
+        // Required for the drop event to fire
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'copy';
+      },
+      onDragLeave: (event: ReactDragEvent) => {
+        if (!hasFiles(event)) return;
+        // dragleave fires for every child; only reset when leaving the zone
+        dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+        if (dragDepthRef.current === 0) setIsDragging(false);
+      },
+      onDrop: (event: ReactDragEvent) => {
+        if (!hasFiles(event)) return;
+        event.preventDefault();
+        dragDepthRef.current = 0;
+        setIsDragging(false);
+        addFiles(filesFromDataTransfer(event.dataTransfer));
+      },
+    }),
+    [addFiles],
+  );
+
+  const { images, files } = useMemo(
+    () => splitUploads(attachments.filter((a) => a.status === 'ready' && a.uploaded)),
+    [attachments],
+  );
+
+  return {
+    attachments,
+    images,
+    files,
+    isUploading: attachments.some((a) => a.status === 'processing' || a.status === 'uploading'),
+    addFiles,
+    remove,
+    clear,
+    take,
+    onPaste,
+    dropzoneProps,
+    isDragging,
+  };
+}
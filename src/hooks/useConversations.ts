@@ -0,0 +1,368 @@
+/**
+ * useConversations Hook
+ * List, resume, rename and delete the current visitor's conversations.
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { getApiClient } from '@pillar-ai/sdk';
+import { usePillarContext } from '../PillarProvider';
+import type { UsePillarChatReturn } from './usePillarChat';
+
+/**
+ * Most conversations the list endpoint returns. It has no offset or
+ * cursor, so older conversations can't be listed.
+ */
+export const MAX_LISTED_CONVERSATIONS = 50;
+
+const PREVIEW_LENGTH = 120;
+
+export interface PillarConversation {
+  id: string;
+  title: string;
+  startedAt: string | null;
+  lastMessageAt: string | null;
+  messageCount: number;
+  /** Start of the last message. Only loaded with the `previews` option. */
+  preview?: string;
+}
+
+/**
+ * Outcome of `rename` and `remove`. `'unsupported'` means the installed
+ * @pillar-ai/sdk has no endpoint for the action; nothing was changed.
+ */
+export type PillarConversationActionResult =
+  | { ok: true }
+  | { ok: false; reason: 'unsupported' }
+  | { ok: false; reason: 'failed'; error: Error };
+
+export interface UseConversationsOptions {
+  /**
+   * The chat that `select(id)` loads conversations into.
+   * Pass the return value of `usePillarChat()`.
+   */
+  chat?: Pick<UsePillarChatReturn, 'loadConversation' | 'conversationId' | 'reset'>;
+  /**
+   * Conversations added by each `loadMore()` (default: 20). At most
+   * `MAX_LISTED_CONVERSATIONS` are listed.
+   */
+  pageSize?: number;
+  /**
+   * Load `preview` for each listed conversation (default: false). Costs one
+   * request per conversation, since the list endpoint doesn't include it.
+   */
+  previews?: boolean;
+  /** Called when a request fails. */
+  onError?: (error: Error) => void;
+}
+
+export interface UseConversationsReturn {
+  conversations: PillarConversation[];
+  isLoading: boolean;
+  error: Error | null;
+  /** True while `loadMore()` can list more conversations. */
+  hasMore: boolean;
+  /**
+   * True when `MAX_LISTED_CONVERSATIONS` are listed and older ones may
+   * exist that the list endpoint can't return.
+   */
+  limitReached: boolean;
+  /**
+   * List `pageSize` more conversations. The list endpoint only takes a
+   * limit, so this re-fetches the newest conversations with a larger one.
+   */
+  loadMore: () => Promise<void>;
+  /** Re-fetch the conversations listed so far. */
+  refresh: () => Promise<void>;
+  /** Load a conversation's history into the connected chat. */
+  select: (id: string) => Promise<void>;
+  /** Whether the installed @pillar-ai/sdk can rename conversations. */
+  canRename: boolean;
+  /** Whether the installed @pillar-ai/sdk can delete conversations. */
+  canRemove: boolean;
+  /** Rename a conversation. The list updates right away and rolls back on failure. */
+  rename: (id: string, title: string) => Promise<PillarConversationActionResult>;
+  /** Delete a conversation. The list updates right away and rolls back on failure. */
+  remove: (id: string) => Promise<PillarConversationActionResult>;
+  /** ID of the conversation shown in the connected chat. */
+  activeId: string | null;
+}
+
+/**
+ * Structural shape of the summaries returned by `api.listConversations()`.
+ */
+interface ServerConversationSummary {
+  id: string;
+  title: string;
+  startedAt: string | null;
+  lastMessageAt: string | null;
+  messageCount: number;
+}
+
+/**
+ * Conversation management methods, present on SDK versions with the
+ * endpoints. @pillar-ai/sdk 0.1.x has neither.
+ */
+interface ConversationManagementApi {
+  renameConversation?: (conversationId: string, title: string) => Promise<unknown>;
+  deleteConversation?: (conversationId: string) => Promise<unknown>;
+}
+
+function getManagementApi(): ConversationManagementApi | null {
+  return getApiClient() as ConversationManagementApi | null;
+}
+
+function toError(err: unknown): Error {
+  return err instanceof Error ? err : new Error(String(err));
+}
+
+function previewOf(content: string): string {
+  const text = content.replace(/\s+/g, ' ').trim();
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH - 1)}…` : text;
+}
+
+/**
+ * Build a conversation sidebar next to a headless chat.
+ *
+ * @example
+ * ```tsx
+ * function ChatWithSidebar() {
+ *   const chat = usePillarChat();
+ *   const { conversations, select, activeId, hasMore, loadMore } =
+ *     useConversations({ chat });
+ *
+ *   return (
+ *     <aside>
+ *       {conversations.map((c) => (
+ *         <button key={c.id} aria-current={c.id === activeId} onClick={() => select(c.id)}>
+ *           {c.title}
+ *         </button>
+ *       ))}
+ *       {hasMore && <button onClick={loadMore}>Show more</button>}
+ *     </aside>
+ *   );
+ * }
+ * ```
+ */
+export function useConversations(options: UseConversationsOptions = {}): UseConversationsReturn {
+  const { isReady } = usePillarContext();
+  const pageSize = options.pageSize ?? 20;
+  const previews = options.previews ?? false;
+
+  const [conversations, setConversations] = useState<PillarConversation[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [limitReached, setLimitReached] = useState(false);
+
+  const limitRef = useRef(Math.min(pageSize, MAX_LISTED_CONVERSATIONS));
+
+  // Previews by conversation ID and last message time, so a refresh only
+  // loads the conversations that changed
+  const previewCacheRef = useRef(new Map<string, string>());
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const fail = useCallback((err: unknown) => {
+    const failure = toError(err);
+    setError(failure);
+    optionsRef.current.onError?.(failure);
+  }, []);
+
+  const loadPreviews = useCallback(async (listed: PillarConversation[]) => {
+    const api = getApiClient();
+    if (!api) return;
+    const cache = previewCacheRef.current;
+
+    await Promise.all(
+      listed.map(async (conversation) => {
+        const cacheKey = `${conversation.id}:${conversation.lastMessageAt}`;
+        let preview = cache.get(cacheKey);
+        if (preview === undefined) {
+          const detail = await api.getConversation(conversation.id);
+          const last = detail?.messages[detail.messages.length - 1];
+          if (!last) return;
+          preview = previewOf(last.content);
+          cache.set(cacheKey, preview);
+        }
+        const loaded = preview;
+        setConversations((prev) =>
+          prev.map((c) =>
+            c.id === conversation.id && c.lastMessageAt === conversation.lastMessageAt
+              ? { ...c, preview: loaded }
+              : c,
+          ),
+        );
+      }),
+    );
+  }, []);
+
+  const fetchConversations = useCallback(
+    async (limit: number) => {
+      const api = getApiClient();
+      if (!api) {
+        fail(new Error('Pillar SDK is not initialized'));
+        return;
+      }
+
+      const capped = Math.min(limit, MAX_LISTED_CONVERSATIONS);
+      setIsLoading(true);
+      setError(null);
+      try {
+        const summaries: ServerConversationSummary[] = await api.listConversations(capped);
+        limitRef.current = capped;
+        const cached = previewCacheRef.current;
+        const listed = summaries.map((s) => {
+          const preview = cached.get(`${s.id}:${s.lastMessageAt}`);
+          return {
+            id: s.id,
+            title: s.title,
+            startedAt: s.startedAt,
+            lastMessageAt: s.lastMessageAt,
+            messageCount: s.messageCount,
+            ...(preview !== undefined ? { preview } : {}),
+          };
+        });
+        setConversations(listed);
+        setHasMore(summaries.length >= capped && capped < MAX_LISTED_CONVERSATIONS);
+        setLimitReached(summaries.length >= MAX_LISTED_CONVERSATIONS);
+        if (optionsRef.current.previews) {
+          void loadPreviews(listed.filter((c) => c.preview === undefined));
+        }
+      } catch (err) {
+        fail(err);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [fail, loadPreviews],
+  );
+
+  useEffect(() => {
+    if (isReady) {
+      void fetchConversations(limitRef.current);
+    }
+  }, [isReady, fetchConversations]);
+
+  // Turning previews on loads them for the conversations already listed
+  useEffect(() => {
+    if (isReady && previews) {
+      void loadPreviews(conversations);
+    }
+    // Only react to the option changing
+  }, [previews]);
+
+  // Refresh when the chat starts or switches conversations, so new threads show up
+  const activeId = options.chat?.conversationId ?? null;
+  useEffect(() => {
+    if (isReady && activeId && !conversations.some((c) => c.id === activeId)) {
+      void fetchConversations(limitRef.current);
+    }
+    // Only react to the active conversation changing
+  }, [activeId]);
+
+  const loadMore = useCallback(
+    () => fetchConversations(limitRef.current + pageSize),
+    [fetchConversations, pageSize],
+  );
+
+  const refresh = useCallback(
+    () => fetchConversations(limitRef.current),
+    [fetchConversations],
+  );
+
+  const select = useCallback(
+    async (id: string) => {
+      const chat = optionsRef.current.chat;
+      if (!chat) {
+        fail(new Error('useConversations: pass { chat } to select a conversation'));
+        return;
+      }
+      await chat.loadConversation(id);
+    },
+    [fail],
+  );
+
+  // Mirror for reading the pre-update entry in rename/remove
+  const conversationsRef = useRef(conversations);
+  conversationsRef.current = conversations;
+
+  const rename = useCallback(
+    async (id: string, title: string): Promise<PillarConversationActionResult> => {
+      const api = getManagementApi();
+      if (typeof api?.renameConversation !== 'function') {
+        return { ok: false, reason: 'unsupported' };
+      }
+
+      const previousTitle = conversationsRef.current.find((c) => c.id === id)?.title;
+      setConversations((prev) => prev.map((c) => (c.id === id ? { ...c, title } : c)));
+      try {
+        await api.renameConversation(id, title);
+        return { ok: true };
+      } catch (err) {
+        // Undo only this rename, keeping changes made since
+        if (previousTitle !== undefined) {
+          setConversations((prev) =>
+            prev.map((c) =>
+              c.id === id && c.title === title ? { ...c, title: previousTitle } : c,
+            ),
+          );
+        }
+        fail(err);
+        return { ok: false, reason: 'failed', error: toError(err) };
+      }
+    },
+    [fail],
+  );
+
+  const remove = useCallback(
+    async (id: string): Promise<PillarConversationActionResult> => {
+      const api = getManagementApi();
+      if (typeof api?.deleteConversation !== 'function') {
+        return { ok: false, reason: 'unsupported' };
+      }
+
+      const index = conversationsRef.current.findIndex((c) => c.id === id);
+      const removed = conversationsRef.current[index];
+      setConversations((prev) => prev.filter((c) => c.id !== id));
+      try {
+        await api.deleteConversation(id);
+        // Deleting the open thread leaves the chat empty
+        const chat = optionsRef.current.chat;
+        if (chat?.conversationId === id) {
+          chat.reset();
+        }
+        return { ok: true };
+      } catch (err) {
+        if (removed) {
+          setConversations((prev) =>
+            prev.some((c) => c.id === id)
+              ? prev
+              : [...prev.slice(0, index), removed, ...prev.slice(index)],
+          );
+        }
+        fail(err);
+        return { ok: false, reason: 'failed', error: toError(err) };
+      }
+    },
+    [fail],
+  );
+
+  const management = getManagementApi();
+
+  return {
+    conversations,
+    isLoading,
+    error,
+    hasMore,
+    limitReached,
+    loadMore,
+    refresh,
+    select,
+    canRename: isReady && typeof management?.renameConversation === 'function',
+    canRemove: isReady && typeof management?.deleteConversation === 'function',
+    rename,
+    remove,
+    activeId,
+  };
+}
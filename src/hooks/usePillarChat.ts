@@ -4,26 +4,224 @@
  * Use this to build custom chat UIs without the Pillar panel.
  */
 
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useEffect, useMemo, type ComponentType } from 'react';
 import {
   getApiClient,
   getPillarInstance,
   normalizeToolResult,
   type ChatImage,
+  type ChatResponse,
   type ImageUploadResponse,
   type ArticleSummary,
   type ProgressEvent,
   type ToolRequest,
+  type ToolType,
 } from '@pillar-ai/sdk';
-import { usePillarContext } from '../PillarProvider';
+import {
+  usePillarContext,
+  useReadableStore,
+  useStreamingStore,
+  useToolRegistry,
+} from '../PillarProvider';
+import type {
+  ConfirmationRenderProps,
+  ReactExecutableToolSchema,
+  ToolExecutionContext,
+} from './usePillarTool';
+import { withInputValidation } from '../utils/standardSchema';
+import { DEFAULT_RETRY, skipReceived, withRetry } from '../utils/retry';
+import {
+  chatImages,
+  documentContextItems,
+  prepareChatFile,
+  splitAttachments,
+  type PillarTextExtractor,
+} from '../utils/attachments';
+import {
+  activeConversationKey,
+  conversationKey,
+  deserializeConversation,
+  deserializeOutbox,
+  outboxKey,
+  serializeConversation,
+  serializeOutbox,
+} from '../persistence/serialize';
+import type { PillarChatPersistenceOptions } from '../persistence/types';
+import type { PillarSuggestion } from '../utils/suggestionStore';
+import {
+  downloadTranscript,
+  TRANSCRIPT_FILE_EXTENSIONS,
+  type TranscriptExportOptions,
+} from '../converters/transcript';
+
+/** Lifecycle of a tool call inside a headless chat message. */
+export type PillarToolCallState =
+  | 'awaiting-confirmation'
+  | 'running'
+  | 'complete'
+  | 'error'
+  | 'cancelled';
+
+/**
+ * A tool invocation made by the agent while producing an assistant message.
+ * Render `inline_ui` calls with `<PillarToolCard part={part} />`.
+ */
+export interface PillarToolCallPart {
+  type: 'tool-call';
+  toolCallId: string;
+  toolName: string;
+  /** Tool type from the registered schema, when known. */
+  toolType?: ToolType;
+  /** Arguments the agent supplied (the `data` for inline_ui cards). */
+  input: Record<string, unknown>;
+  state: PillarToolCallState;
+  /** Result sent back to the agent, once available. */
+  output?: unknown;
+  /** Error message when `state` is `'error'`. */
+  error?: string;
+}
+
+/** An image attached to a message. `mediaType` is its MIME type, when known. */
+export type PillarChatImage = ChatImage & { mediaType?: string };
+
+/** A document attached to a message, e.g. a PDF invoice or a CSV export. */
+export interface PillarChatFile {
+  /** Where the file can be opened. Documents read in the browser have none. */
+  url?: string;
+  /** Storage path, used to refresh the signed URL. */
+  path?: string;
+  /** File name as the user picked it. */
+  name: string;
+  /** MIME type, e.g. `application/pdf` or `text/csv`. */
+  mediaType: string;
+  /** Size in bytes. */
+  size?: number;
+  /**
+   * The document's text, sent to the agent with each message in the
+   * thread. Cut off after `MAX_DOCUMENT_LENGTH` characters.
+   */
+  text?: string;
+}
+
+/**
+ * Delivery status of a user message:
+ * - `'pending'`: in the outbox, waiting for a connection
+ * - `'sending'`: sent, not yet acknowledged by the server
+ * - `'sent'`: the server received it
+ * - `'failed'`: it could not be sent; `retry()` sends it again
+ */
+export type PillarMessageStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+/** A rating on an assistant message. */
+export interface PillarFeedbackInput {
+  rating: 'up' | 'down';
+  comment?: string;
+  /**
+   * Reasons picked from a fixed list, e.g. `['Inaccurate', 'Too long']`.
+   * Sent at the end of the comment; Pillar has no separate field for them.
+   */
+  tags?: string[];
+}
+
+/**
+ * Feedback the user gave on an assistant message. `'submitted'` means the
+ * rating was handed to the SDK, which sends it in the background and
+ * doesn't report whether Pillar received it.
+ */
+export interface PillarMessageFeedback extends PillarFeedbackInput {
+  status: 'submitting' | 'submitted';
+}
 
 export interface PillarChatMessage {
+  /** Assigned on creation and stable for the message's lifetime, e.g. for React keys. */
   id?: string;
+  /**
+   * The server's ID for the message: set once the server sends it for an
+   * answer streamed in this chat, and on messages loaded from the server.
+   * Before 0.2, `id` was replaced by this value; it now stays the client ID.
+   */
+  serverId?: string;
   role: 'user' | 'assistant';
+  /** Creation time in milliseconds since the epoch. */
+  createdAt?: number;
   content: string;
-  images?: ChatImage[];
+  images?: PillarChatImage[];
+  /** Attached documents (images are listed in `images`). */
+  files?: PillarChatFile[];
   sources?: ArticleSummary[];
   progressEvents?: ProgressEvent[];
+  /** Tool calls the agent made while producing this message. */
+  toolCalls?: PillarToolCallPart[];
+  /**
+   * Set on user messages sent by an inline_ui card via `sendResult`.
+   * Holds the originating tool call ID. `PillarChat.Messages`, the
+   * converters and transcripts skip these messages: the result is shown
+   * as the tool call's `output` instead.
+   */
+  toolResultFor?: string;
+  /** Delivery status of user messages sent from this chat. */
+  status?: PillarMessageStatus;
+  /** The user's rating of an assistant message, set by `submitFeedback`. */
+  feedback?: PillarMessageFeedback;
+  /**
+   * Follow-up prompts suggested after this answer, sent by the server or
+   * returned by the `followUps` option.
+   */
+  suggestions?: PillarSuggestion[];
+}
+
+/**
+ * A tool call waiting for the user to approve or reject it.
+ * Created for tools registered with `needsConfirmation` or `renderConfirmation`.
+ */
+export interface PillarPendingConfirmation {
+  toolCallId: string;
+  toolName: string;
+  /** Arguments the agent supplied. */
+  data: Record<string, unknown>;
+  /** The tool's `renderConfirmation` component, if it has one. */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  renderConfirmation?: ComponentType<ConfirmationRenderProps<any>>;
+  /** Run the tool's `execute` (optionally with modified data) and send the result. */
+  approve: (modifiedData?: Record<string, unknown>) => Promise<void>;
+  /** Skip execution and tell the agent the user cancelled. */
+  reject: () => Promise<void>;
+}
+
+/** Position of a message among its alternative versions. */
+export interface PillarMessageBranches {
+  /** Zero-based index of the version currently shown. */
+  index: number;
+  /** Number of versions, including the one shown. */
+  count: number;
+}
+
+/**
+ * What `sendMessage` does while a response is still streaming:
+ * - `'interrupt'` (default): stop the current run and send it right away
+ * - `'queue'`: send it after the current run (and earlier queued messages) finish
+ * - `'reject'`: don't send it; `onError` is called instead
+ */
+export type PillarChatConcurrency = 'queue' | 'interrupt' | 'reject';
+
+/** A message waiting in the `'queue'` concurrency mode. */
+export interface PillarQueuedMessage {
+  id: string;
+  text: string;
+  images?: PillarChatImage[];
+  files?: PillarChatFile[];
+}
+
+/** Retries for dropped connections and transient server errors. */
+export interface PillarChatRetryOptions {
+  /** Retries per message before giving up (default: 3). */
+  attempts?: number;
+  /** Delay before the first retry in ms, doubled for each retry (default: 500). */
+  initialDelay?: number;
+  /** Longest delay between retries in ms (default: 8000). */
+  maxDelay?: number;
+  /** Called before each retry, e.g. to show "Reconnecting…". */
+  onRetry?: (attempt: number, error: Error) => void;
 }
 
 export interface UsePillarChatOptions {
@@ -31,33 +229,558 @@ export interface UsePillarChatOptions {
   conversationId?: string;
   /** Called when a chat error occurs. */
   onError?: (error: Error) => void;
+  /**
+   * Messages to show on mount, e.g. a transcript restored with
+   * `fromUIMessages`, `fromAGUIMessages` or `fromSimpleMessages`.
+   * They are sent as history with the next message. Read once on mount.
+   */
+  initialMessages?: PillarChatMessage[];
+  /**
+   * Save messages to a storage adapter and restore them on mount.
+   * Restores `conversationId` if given, otherwise the last active
+   * conversation in the namespace.
+   *
+   * @example
+   * ```tsx
+   * usePillarChat({ persistence: { adapter: createLocalStorageAdapter() } });
+   * ```
+   */
+  persistence?: PillarChatPersistenceOptions;
+  /**
+   * How often streamed tokens are written to `messages`:
+   * - `'token'` (default): on every token
+   * - `'frame'`: at most once per animation frame
+   * - a number: at most once per that many milliseconds
+   * - `'end'`: only when the response finishes
+   *
+   * Only the streaming message changes identity on each update. Bubbles can
+   * read every token with `useStreamingMessage(id)` regardless of this setting.
+   */
+  streamUpdates?: 'token' | 'frame' | 'end' | number;
+  /**
+   * What `sendMessage` does while a response is streaming (default:
+   * `'interrupt'`, which replaces the running answer as earlier versions did).
+   */
+  concurrency?: PillarChatConcurrency;
+  /**
+   * Retry transient failures with exponential backoff. A request that
+   * fails before the agent starts answering is sent again; a stream that
+   * drops mid-answer is resumed where it stopped. `false` disables retries.
+   */
+  retry?: PillarChatRetryOptions | false;
+  /**
+   * Read the text of documents the browser can't read itself, such as
+   * PDFs, for `uploadFile`. Without it, only text documents (CSV, TSV,
+   * plain text, Markdown and JSON) can be attached.
+   *
+   * @example
+   * ```tsx
+   * usePillarChat({ extractText: (file) => pdfToText(file) });
+   * ```
+   */
+  extractText?: PillarTextExtractor;
+  /**
+   * Suggest follow-up prompts after each answer, stored as its
+   * `suggestions`. Only called when the server sent none, which is always
+   * the case with @pillar-ai/sdk 0.1.x.
+   *
+   * @example
+   * ```tsx
+   * usePillarChat({
+   *   followUps: ({ answer }) =>
+   *     answer.includes('invoice') ? [{ text: 'Download the invoice as PDF' }] : [],
+   * });
+   * ```
+   */
+  followUps?: (turn: {
+    question: string;
+    answer: string;
+  }) => PillarSuggestion[] | Promise<PillarSuggestion[]>;
 }
 
 export interface UsePillarChatReturn {
   messages: PillarChatMessage[];
-  sendMessage: (text: string, opts?: { images?: ChatImage[] }) => Promise<void>;
+  /**
+   * Send a message. Files with an image type are sent as images. While a
+   * response is streaming, the `concurrency` option decides what happens;
+   * the promise settles when the message's own turn finishes.
+   */
+  sendMessage: (
+    text: string,
+    opts?: { images?: PillarChatImage[]; files?: PillarChatFile[] },
+  ) => Promise<void>;
   isLoading: boolean;
   error: Error | null;
   uploadImage: (file: File) => Promise<ImageUploadResponse>;
+  /**
+   * Prepare an image or document (PDF, CSV, text, …) for `sendMessage`'s
+   * `files`. Images are uploaded; documents are read in the browser and
+   * their text is sent to the agent. PDFs need the `extractText` option.
+   */
+  uploadFile: (file: File) => Promise<PillarChatFile>;
   stop: () => void;
   reset: () => void;
   conversationId: string | null;
+  /** Tool calls waiting for user approval, oldest first. */
+  pendingConfirmations: PillarPendingConfirmation[];
+  /**
+   * Messages waiting to be sent, oldest first. `stop()` ends the current
+   * run and the queue carries on; `reset()` drops it.
+   */
+  queuedMessages: PillarQueuedMessage[];
+  /** Drop a queued or pending message before it is sent. */
+  removeQueuedMessage: (id: string) => void;
+  /** Whether the browser has a network connection. */
+  isOnline: boolean;
+  /**
+   * Messages sent while offline, oldest first, with status `'pending'`.
+   * They are sent in order when the connection returns, and saved with
+   * `persistence` so they survive a reload. `reset()` drops them.
+   */
+  outbox: PillarChatMessage[];
+  /**
+   * Replace the thread with a server-side conversation's history.
+   * The next message continues that conversation.
+   */
+  loadConversation: (conversationId: string) => Promise<void>;
+  /**
+   * Replace a user message with new text and ask again. The previous
+   * version and everything after it are kept as a branch.
+   */
+  editMessage: (messageId: string, text: string) => Promise<void>;
+  /**
+   * Ask for a different answer to an assistant message (default: the last
+   * one). The previous answer and everything after it are kept as a branch.
+   */
+  regenerate: (messageId?: string) => Promise<void>;
+  /**
+   * Messages that have alternative versions, keyed by message ID.
+   * Messages without alternatives are not listed.
+   */
+  branches: Record<string, PillarMessageBranches>;
+  /** Show another version of a message, along with the turns that followed it. */
+  switchBranch: (messageId: string, index: number) => void;
+  /**
+   * Send the last user message again, e.g. after an error. Its previous
+   * answer, complete or partial, is replaced.
+   */
+  retry: () => Promise<void>;
+  /**
+   * Rate an assistant answer. The rating is stored on the message's
+   * `feedback` and sent to Pillar to tune the agent. Delivery isn't
+   * confirmed: the SDK doesn't report failed feedback requests. Answers
+   * without a `serverId` can't be rated; the call warns and does nothing.
+   */
+  submitFeedback: (messageId: string, feedback: PillarFeedbackInput) => Promise<void>;
+  /**
+   * Save the current thread as a transcript file (default: Markdown).
+   * See `exportTranscript` for the options.
+   */
+  download: (options?: Partial<TranscriptExportOptions> & { filename?: string }) => void;
+}
+
+/**
+ * One version of the thread from a branch point onwards. `nested` holds the
+ * branch points further down that version, so switching back restores them.
+ */
+interface BranchVariant {
+  tail: PillarChatMessage[];
+  nested: BranchPoints;
+}
+
+/** What a user message carries besides its text. */
+type UserMessageOptions = {
+  images?: PillarChatImage[];
+  files?: PillarChatFile[];
+  toolResultFor?: string;
+};
+
+/** A queued send, with the resolver of the promise `sendMessage` returned for it. */
+interface QueueEntry {
+  message: PillarQueuedMessage;
+  opts?: UserMessageOptions;
+  resolve: () => void;
+}
+
+function createUserMessage(text: string, opts?: UserMessageOptions): PillarChatMessage {
+  const attachments = splitAttachments(opts?.images, opts?.files);
+  return {
+    id: crypto.randomUUID(),
+    role: 'user',
+    createdAt: Date.now(),
+    content: text,
+    images: attachments.images,
+    ...(attachments.files ? { files: attachments.files } : {}),
+    ...(opts?.toolResultFor ? { toolResultFor: opts.toolResultFor } : {}),
+  };
+}
+
+/**
+ * The SDK's feedback endpoint takes a rating and a free-text comment,
+ * so tags are sent at the end of the comment.
+ */
+function feedbackComment({ comment, tags }: PillarFeedbackInput): string | undefined {
+  const parts = [comment?.trim(), tags?.length ? `Tags: ${tags.join(', ')}` : ''].filter(Boolean);
+  return parts.length > 0 ? parts.join('\n\n') : undefined;
+}
+
+/** `navigator.onLine`, assuming a connection where it isn't available (SSR). */
+function isBrowserOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+/** Alternative versions of the thread, keyed by the message index they start at. */
+type BranchPoints = Record<number, { variants: BranchVariant[]; active: number }>;
+
+function splitBranchPoints(points: BranchPoints, at: number) {
+  const before: BranchPoints = {};
+  const after: BranchPoints = {};
+  Object.entries(points).forEach(([key, point]) => {
+    const index = Number(key);
+    if (index < at) before[index] = point;
+    else if (index > at) after[index] = point;
+  });
+  return { before, after };
+}
+
+/**
+ * Structural shape of a message returned by `api.getConversation()`.
+ * Only the fields read here are listed.
+ */
+interface ServerHistoryMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp?: string;
+  images?: ChatImage[];
+  suggestions?: unknown;
+  display_trace?: Array<{
+    step_type: string;
+    content?: string;
+    tool?: string;
+    /** The calls of a `parallel_tool_decision` step. */
+    tools?: Array<{ tool: string; arguments?: Record<string, unknown> }>;
+    arguments?: Record<string, unknown>;
+    success?: boolean;
+  }>;
+}
+
+function fromHistoryMessage(msg: ServerHistoryMessage): PillarChatMessage {
+  const progressEvents: ProgressEvent[] = [];
+  const toolCalls: PillarToolCallPart[] = [];
+
+  msg.display_trace?.forEach((step, i) => {
+    if (step.step_type === 'thinking' && step.content) {
+      progressEvents.push({
+        kind: 'thinking',
+        id: `${msg.id}-trace-${i}`,
+        text: step.content,
+        status: 'done',
+      });
+    } else if (step.step_type === 'tool_decision' && step.tool) {
+      toolCalls.push({
+        type: 'tool-call',
+        toolCallId: `${msg.id}-trace-${i}`,
+        toolName: step.tool,
+        input: step.arguments ?? {},
+        state: 'complete',
+      });
+    } else if (step.step_type === 'parallel_tool_decision' && step.tools) {
+      step.tools.forEach((call, j) => {
+        toolCalls.push({
+          type: 'tool-call',
+          toolCallId: `${msg.id}-trace-${i}-${j}`,
+          toolName: call.tool,
+          input: call.arguments ?? {},
+          state: 'complete',
+        });
+      });
+    } else if (step.step_type === 'tool_result' && step.tool) {
+      // Attach the outcome to the earliest call of the same tool still
+      // without one, so parallel calls of one tool each get their result
+      const call = toolCalls.find(
+        (t) => t.toolName === step.tool && t.output === undefined && t.state !== 'error',
+      );
+      if (call && step.success === false) {
+        call.state = 'error';
+        call.error = step.content;
+      } else if (call) {
+        call.output = step.content;
+      }
+    }
+  });
+
+  const createdAt = msg.timestamp ? Date.parse(msg.timestamp) : NaN;
+  const suggestions = toSuggestions(msg.suggestions);
+
+  return {
+    id: msg.id,
+    serverId: msg.id,
+    role: msg.role,
+    content: msg.content,
+    ...(Number.isNaN(createdAt) ? {} : { createdAt }),
+    ...(msg.images?.length ? { images: msg.images } : {}),
+    ...(progressEvents.length ? { progressEvents } : {}),
+    ...(toolCalls.length ? { toolCalls } : {}),
+    ...(suggestions ? { suggestions } : {}),
+  };
+}
+
+/**
+ * Follow-up suggestions as the server sends them: plain strings or
+ * `{ text, label?, id? }` objects. Anything else is ignored.
+ */
+function toSuggestions(value: unknown): PillarSuggestion[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+
+  const suggestions = value.flatMap((item: unknown): PillarSuggestion[] => {
+    if (typeof item === 'string') return item.trim() ? [{ text: item }] : [];
+    if (item && typeof item === 'object' && 'text' in item && typeof item.text === 'string') {
+      return [
+        {
+          text: item.text,
+          ...('label' in item && typeof item.label === 'string' ? { label: item.label } : {}),
+          ...('id' in item && typeof item.id === 'string' ? { id: item.id } : {}),
+        },
+      ];
+    }
+    return [];
+  });
+
+  return suggestions.length > 0 ? suggestions : undefined;
+}
+
+/**
+ * Collects streamed tokens and passes them to `write` in batches, as
+ * configured by the `streamUpdates` option.
+ */
+function createTokenBuffer(
+  mode: NonNullable<UsePillarChatOptions['streamUpdates']>,
+  write: (text: string) => void,
+) {
+  let pending = '';
+  let cancelScheduled: (() => void) | null = null;
+
+  const flush = () => {
+    cancelScheduled?.();
+    cancelScheduled = null;
+    if (!pending) return;
+    const text = pending;
+    pending = '';
+    write(text);
+  };
+
+  const push = (token: string) => {
+    pending += token;
+    if (mode === 'token') {
+      flush();
+    } else if (mode !== 'end' && !cancelScheduled) {
+      if (mode === 'frame' && typeof requestAnimationFrame === 'function') {
+        const handle = requestAnimationFrame(flush);
+        cancelScheduled = () => cancelAnimationFrame(handle);
+      } else {
+        const handle = setTimeout(flush, typeof mode === 'number' ? mode : 16);
+        cancelScheduled = () => clearTimeout(handle);
+      }
+    }
+  };
+
+  return { push, flush };
+}
+
+function updateToolCallIn(
+  messages: PillarChatMessage[],
+  toolCallId: string,
+  patch: Partial<PillarToolCallPart>,
+): PillarChatMessage[] {
+  const idx = messages.findIndex((m) =>
+    m.toolCalls?.some((t) => t.toolCallId === toolCallId),
+  );
+  if (idx < 0) return messages;
+  const updated = [...messages];
+  updated[idx] = {
+    ...updated[idx],
+    toolCalls: updated[idx].toolCalls!.map((t) =>
+      t.toolCallId === toolCallId ? { ...t, ...patch } : t,
+    ),
+  };
+  return updated;
 }
 
 export function usePillarChat(options: UsePillarChatOptions = {}): UsePillarChatReturn {
   const { isReady } = usePillarContext();
+  const toolRegistry = useToolRegistry();
+  const readableStore = useReadableStore();
+  const streamingStore = useStreamingStore();
 
-  const [messages, setMessages] = useState<PillarChatMessage[]>([]);
+  const [messages, setMessages] = useState<PillarChatMessage[]>(() =>
+    // Every message needs an ID for editMessage and branches
+    (options.initialMessages ?? []).map((m) => (m.id ? m : { ...m, id: crypto.randomUUID() })),
+  );
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
   const [conversationId, setConversationId] = useState<string | null>(
     options.conversationId ?? null,
   );
+  const [pendingConfirmations, setPendingConfirmations] = useState<
+    PillarPendingConfirmation[]
+  >([]);
 
   const abortRef = useRef<AbortController | null>(null);
 
-  const sendMessage = useCallback(
-    async (text: string, opts?: { images?: ChatImage[] }) => {
+  // Streaming store entry left by the last run, removed when the next starts
+  const streamedIdRef = useRef<string | null>(null);
+
+  const clearStreamed = useCallback(() => {
+    if (streamedIdRef.current) {
+      streamingStore.remove(streamedIdRef.current);
+      streamedIdRef.current = null;
+    }
+  }, [streamingStore]);
+
+  const [isOnline, setIsOnline] = useState(isBrowserOnline);
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    const update = () => setIsOnline(isBrowserOnline());
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  // User messages waiting for a connection, sent in order once back online
+  const outboxRef = useRef<PillarChatMessage[]>([]);
+  const [outbox, setOutboxState] = useState<PillarChatMessage[]>([]);
+  // The stored outbox is only overwritten once it has been read
+  const outboxRestoredRef = useRef(false);
+
+  const setOutbox = useCallback((messages: PillarChatMessage[]) => {
+    outboxRef.current = messages;
+    setOutboxState(messages);
+  }, []);
+
+  // Persistence options are read at save/restore time, not tracked as deps
+  const persistenceRef = useRef(options.persistence);
+  persistenceRef.current = options.persistence;
+
+  // Restore the persisted conversation on mount
+  useEffect(() => {
+    const persistence = persistenceRef.current;
+    if (!persistence) return;
+    let cancelled = false;
+
+    const restore = async () => {
+      const { adapter, namespace } = persistence;
+      const id =
+        options.conversationId ?? (await adapter.getItem(activeConversationKey(namespace)));
+      const stored = id
+        ? deserializeConversation(await adapter.getItem(conversationKey(id)))
+        : null;
+      const pending = deserializeOutbox(await adapter.getItem(outboxKey(namespace)));
+      if (cancelled) return;
+      if (stored) {
+        // Don't clobber a conversation the user started while we were loading
+        setMessages((prev) => (prev.length > 0 ? prev : stored.messages));
+        setConversationId((prev) => prev ?? stored.conversationId);
+      }
+      // Restored together with the thread, so the outbox isn't sent to a new conversation
+      outboxRestoredRef.current = true;
+      setOutbox([...pending, ...outboxRef.current]);
+    };
+
+    restore()
+      .catch((err) => {
+        console.warn('[Pillar] Failed to restore conversation:', err);
+      })
+      .finally(() => {
+        outboxRestoredRef.current = true;
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Save after each completed turn (not on every streamed token)
+  useEffect(() => {
+    const persistence = persistenceRef.current;
+    if (!persistence || isLoading || !conversationId || messages.length === 0) return;
+
+    const serialized = serializeConversation(
+      conversationId,
+      messages,
+      persistence.maxMessages,
+      persistence.maxSize,
+    );
+    if (!serialized) return;
+
+    Promise.all([
+      persistence.adapter.setItem(conversationKey(conversationId), serialized),
+      persistence.adapter.setItem(activeConversationKey(persistence.namespace), conversationId),
+    ]).catch((err) => {
+      console.warn('[Pillar] Failed to persist conversation:', err);
+    });
+  }, [messages, conversationId, isLoading]);
+
+  useEffect(() => {
+    const persistence = persistenceRef.current;
+    if (!persistence || !outboxRestoredRef.current) return;
+
+    const key = outboxKey(persistence.namespace);
+    Promise.resolve(
+      outbox.length > 0
+        ? persistence.adapter.setItem(key, serializeOutbox(outbox))
+        : persistence.adapter.removeItem(key),
+    ).catch((err) => {
+      console.warn('[Pillar] Failed to persist outbox:', err);
+    });
+  }, [outbox]);
+
+  // Tool calls this chat registered with the provider's tool registry
+  const toolCallCleanupsRef = useRef<Array<() => void>>([]);
+
+  // Latest sendMessage, for inline_ui cards that reply after the run ends
+  const sendMessageRef = useRef<(text: string, opts?: UserMessageOptions) => Promise<void>>(
+    async () => {},
+  );
+
+  const updateToolCall = useCallback(
+    (toolCallId: string, patch: Partial<PillarToolCallPart>) => {
+      setMessages((prev) => updateToolCallIn(prev, toolCallId, patch));
+    },
+    [],
+  );
+
+  const clearToolCalls = useCallback(() => {
+    toolCallCleanupsRef.current.forEach((cleanup) => cleanup());
+    toolCallCleanupsRef.current = [];
+  }, []);
+
+  // Mirror of pendingConfirmations for stop/reset, which must not depend on state
+  const pendingConfirmationsRef = useRef<PillarPendingConfirmation[]>([]);
+
+  const rejectPendingConfirmations = useCallback(() => {
+    const pending = pendingConfirmationsRef.current;
+    pendingConfirmationsRef.current = [];
+    pending.forEach((confirmation) => void confirmation.reject());
+  }, []);
+
+  // Alternative versions of the thread created by editMessage/regenerate
+  const [branchPoints, setBranchPoints] = useState<BranchPoints>({});
+
+  /**
+   * Send one turn. `replay` restarts the thread from an earlier point:
+   * `base` replaces the messages before the new user message, and
+   * `userMessage` re-sends an existing message instead of creating one.
+   */
+  const runTurn = useCallback(
+    async (
+      text: string,
+      opts?: UserMessageOptions,
+      replay?: { base: PillarChatMessage[]; userMessage?: PillarChatMessage },
+    ) => {
       const api = getApiClient();
       if (!api) {
         const err = new Error('Pillar SDK is not initialized');
@@ -70,52 +793,143 @@ export function usePillarChat(options: UsePillarChatOptions = {}): UsePillarChat
       setIsLoading(true);
 
       const userMsg: PillarChatMessage = {
-        role: 'user',
-        content: text,
-        images: opts?.images,
+        ...(replay?.userMessage ?? createUserMessage(text, opts)),
+        status: 'sending',
       };
 
-      setMessages((prev) => [...prev, userMsg]);
+      setMessages((prev) => [...(replay ? replay.base : prev), userMsg]);
 
       const assistantIdx = { current: -1 };
       const abortController = new AbortController();
       abortRef.current = abortController;
 
+      // The assistant message gets a client ID up front so bubbles can
+      // subscribe while streaming; the server's ID is stored as `serverId`
+      const assistantId = crypto.randomUUID();
+      let liveContent = '';
+
+      clearStreamed();
+      streamedIdRef.current = assistantId;
+
+      const publishLive = (isStreaming: boolean) => {
+        // Reset, unmount or a newer run already cleared this run's entry
+        if (streamedIdRef.current !== assistantId) return;
+        streamingStore.publish({ id: assistantId, content: liveContent, isStreaming });
+      };
+
+      // Whether the server acknowledged the user message
+      let delivered = false;
+
+      const setUserStatus = (status: PillarMessageStatus | undefined) => {
+        // A newer run (e.g. regenerate) may already be re-sending this message
+        if (streamedIdRef.current !== assistantId) return;
+        setMessages((prev) => prev.map((m) => (m.id === userMsg.id ? { ...m, status } : m)));
+      };
+
+      const markDelivered = () => {
+        if (delivered) return;
+        delivered = true;
+        setUserStatus('sent');
+      };
+
+      const tokens = createTokenBuffer(options.streamUpdates ?? 'token', (text) => {
+        setMessages((prev) => {
+          const idx = assistantIdx.current;
+          // Skip if the thread was replaced (reset, edit, loadConversation)
+          if (idx < 0 || idx >= prev.length || prev[idx].id !== assistantId) return prev;
+          const updated = [...prev];
+          updated[idx] = {
+            ...updated[idx],
+            content: updated[idx].content + text,
+          };
+          return updated;
+        });
+      });
+
       let convId = conversationId ?? crypto.randomUUID();
       if (!conversationId) {
         setConversationId(convId);
       }
 
+      const setToolProgress = (
+        toolCallId: string,
+        toolName: string,
+        patch: Pick<ProgressEvent, 'status'> & { label?: string },
+      ) => {
+        setMessages((prev) => {
+          const idx = assistantIdx.current;
+          if (idx < 0 || idx >= prev.length) return prev;
+          const eventId = `tool-progress-${toolCallId}`;
+          const existing = prev[idx].progressEvents ?? [];
+          const current = existing.find((e) => e.id === eventId);
+          // Only tools that called reportProgress get a progress event
+          if (!current && patch.label === undefined) return prev;
+          const next: ProgressEvent = {
+            kind: 'tool_progress',
+            id: eventId,
+            ...current,
+            ...patch,
+            metadata: { toolCallId, toolName },
+          };
+          const updated = [...prev];
+          updated[idx] = {
+            ...updated[idx],
+            progressEvents: current
+              ? existing.map((e) => (e.id === eventId ? next : e))
+              : [...existing, next],
+          };
+          return updated;
+        });
+      };
+
+      const createExecutionContext = (
+        toolCallId: string,
+        toolName: string,
+      ): ToolExecutionContext => ({
+        signal: abortController.signal,
+        toolCallId,
+        conversationId: convId,
+        messageIndex: assistantIdx.current,
+        reportProgress: (label: string) => {
+          if (abortController.signal.aborted) return;
+          setToolProgress(toolCallId, toolName, { label, status: 'active' });
+        },
+      });
+
       try {
-        const history = messages.map((m) => ({
+        const history = (replay ? replay.base : messages).map((m) => ({
           role: m.role,
           content: m.content,
         }));
+        // Documents stay readable for the rest of the thread
+        const documents = documentContextItems(
+          [...(replay ? replay.base : messages), userMsg].flatMap((m) =>
+            m.role === 'user' ? (m.files ?? []) : [],
+          ),
+        );
 
         setMessages((prev) => {
           assistantIdx.current = prev.length;
-          return [...prev, { role: 'assistant', content: '' }];
+          return [
+            ...prev,
+            { id: assistantId, role: 'assistant', createdAt: Date.now(), content: '' },
+          ];
         });
 
-        const response = await api.chat({
-          message: text,
-          history,
-          images: opts?.images,
-          existingConversationId: convId,
+        const appendToken = (token: string) => {
+          liveContent += token;
+          publishLive(true);
+          tokens.push(token);
+        };
+        let onToken = appendToken;
+        // The server's ID for this answer; set once it has started answering
+        let serverAssistantId: string | undefined;
+
+        // Shared by the first request and resumed streams
+        const streamHandlers = {
           signal: abortController.signal,
-          onChunk: (token) => {
-            setMessages((prev) => {
-              const idx = assistantIdx.current;
-              if (idx < 0 || idx >= prev.length) return prev;
-              const updated = [...prev];
-              updated[idx] = {
-                ...updated[idx],
-                content: updated[idx].content + token,
-              };
-              return updated;
-            });
-          },
-          onProgress: (event) => {
+          onChunk: (token: string) => onToken(token),
+          onProgress: (event: ProgressEvent) => {
             setMessages((prev) => {
               const idx = assistantIdx.current;
               if (idx < 0 || idx >= prev.length) return prev;
@@ -128,24 +942,176 @@ export function usePillarChat(options: UsePillarChatOptions = {}): UsePillarChat
               return updated;
             });
           },
-          onConversationStarted: (serverConvId, assistantMessageId) => {
+          onConversationStarted: (serverConvId: string, assistantMessageId?: string) => {
+            markDelivered();
             if (serverConvId) {
               convId = serverConvId;
               setConversationId(serverConvId);
             }
             if (assistantMessageId) {
+              serverAssistantId = assistantMessageId;
               setMessages((prev) => {
                 const idx = assistantIdx.current;
-                if (idx < 0 || idx >= prev.length) return prev;
+                if (idx < 0 || idx >= prev.length || prev[idx].id !== assistantId) return prev;
                 const updated = [...prev];
-                updated[idx] = { ...updated[idx], id: assistantMessageId };
+                updated[idx] = { ...updated[idx], serverId: assistantMessageId };
                 return updated;
               });
             }
           },
           onActionRequest: async (request: ToolRequest) => {
+            const toolCallId = request.tool_call_id ?? crypto.randomUUID();
+            const schema = toolRegistry.getTool(request.action_name);
+
+            setMessages((prev) => {
+              const idx = assistantIdx.current;
+              if (idx < 0 || idx >= prev.length) return prev;
+              const updated = [...prev];
+              const part: PillarToolCallPart = {
+                type: 'tool-call',
+                toolCallId,
+                toolName: request.action_name,
+                toolType: schema?.type,
+                input: request.parameters ?? {},
+                state: 'running',
+              };
+              updated[idx] = {
+                ...updated[idx],
+                toolCalls: [...(updated[idx].toolCalls ?? []), part],
+              };
+              return updated;
+            });
+
+            if (schema?.type === 'inline_ui') {
+              // The card is rendered by the host UI via <PillarToolCard>.
+              // Acknowledge the call so the run continues; the card can
+              // reply later through sendResult, which starts a new turn.
+              toolCallCleanupsRef.current.push(
+                toolRegistry.registerToolCall(toolCallId, {
+                  sendResult: async (result) => {
+                    updateToolCall(toolCallId, { output: result });
+                    await sendMessageRef.current(JSON.stringify(result), {
+                      toolResultFor: toolCallId,
+                    });
+                  },
+                }),
+              );
+              updateToolCall(toolCallId, { state: 'complete' });
+              await api.mcp.sendActionResult(
+                request.action_name,
+                { success: true, rendered: true },
+                request.tool_call_id,
+              );
+              return;
+            }
+
+            const execSchema = schema as ReactExecutableToolSchema | undefined;
+            if (execSchema?.needsConfirmation || execSchema?.renderConfirmation) {
+              // Hold the tool call open until the user decides. Mirrors the
+              // panel flow in usePillarTool: cancel and error results are
+              // sent in the same shape.
+              updateToolCall(toolCallId, { state: 'awaiting-confirmation' });
+
+              await new Promise<void>((settle) => {
+                let settled = false;
+                let unregister = () => {};
+
+                const finish = () => {
+                  settled = true;
+                  unregister();
+                  pendingConfirmationsRef.current = pendingConfirmationsRef.current.filter(
+                    (c) => c.toolCallId !== toolCallId,
+                  );
+                  setPendingConfirmations((prev) =>
+                    prev.filter((c) => c.toolCallId !== toolCallId),
+                  );
+                };
+
+                const approve = async (modifiedData?: Record<string, unknown>) => {
+                  if (settled) return;
+                  finish();
+                  updateToolCall(toolCallId, { state: 'running' });
+                  try {
+                    const current = toolRegistry.getTool(request.action_name) as
+                      | ReactExecutableToolSchema
+                      | undefined;
+                    if (!current?.execute) {
+                      throw new Error(
+                        `No handler registered for action "${request.action_name}". ` +
+                          `Register one with pillar.defineTool() or usePillarTool().`,
+                      );
+                    }
+                    const execute = withInputValidation(
+                      request.action_name,
+                      current.inputSchema,
+                      current.execute,
+                    );
+                    const raw = await Promise.resolve(
+                      execute(
+                        modifiedData ?? request.parameters,
+                        createExecutionContext(toolCallId, request.action_name),
+                      ),
+                    );
+                    const normalized = normalizeToolResult(raw);
+                    updateToolCall(toolCallId, { state: 'complete', output: normalized });
+                    setToolProgress(toolCallId, request.action_name, { status: 'done' });
+                    await api.mcp.sendActionResult(
+                      request.action_name,
+                      normalized,
+                      request.tool_call_id,
+                    );
+                  } catch (err) {
+                    const errorMessage = err instanceof Error ? err.message : String(err);
+                    updateToolCall(toolCallId, { state: 'error', error: errorMessage });
+                    setToolProgress(toolCallId, request.action_name, { status: 'error' });
+                    await api.mcp.sendActionResult(
+                      request.action_name,
+                      { success: false, error: errorMessage },
+                      request.tool_call_id,
+                    );
+                  } finally {
+                    settle();
+                  }
+                };
+
+                const reject = async () => {
+                  if (settled) return;
+                  finish();
+                  updateToolCall(toolCallId, { state: 'cancelled' });
+                  try {
+                    await api.mcp.sendActionResult(
+                      request.action_name,
+                      { cancelled: true, message: 'User cancelled this action.' },
+                      request.tool_call_id,
+                    );
+                  } finally {
+                    settle();
+                  }
+                };
+
+                const confirmation: PillarPendingConfirmation = {
+                  toolCallId,
+                  toolName: request.action_name,
+                  data: request.parameters ?? {},
+                  renderConfirmation: execSchema.renderConfirmation,
+                  approve,
+                  reject,
+                };
+
+                unregister = toolRegistry.registerToolCall(toolCallId, { approve, reject });
+                toolCallCleanupsRef.current.push(unregister);
+                pendingConfirmationsRef.current = [
+                  ...pendingConfirmationsRef.current,
+                  confirmation,
+                ];
+                setPendingConfirmations((prev) => [...prev, confirmation]);
+              });
+              return;
+            }
+
             const pillar = getPillarInstance();
             if (!pillar) {
+              updateToolCall(toolCallId, { state: 'error', error: 'SDK not initialized' });
               await api.mcp.sendActionResult(
                 request.action_name,
                 { success: false, error: 'SDK not initialized' },
@@ -155,7 +1121,16 @@ export function usePillarChat(options: UsePillarChatOptions = {}): UsePillarChat
             }
 
             try {
-              const handler = pillar.getHandler(request.action_name);
+              // Prefer the React schema so execute receives the execution
+              // context; fall back to handlers registered on the core SDK.
+              const handler = execSchema?.execute
+                ? (input: Record<string, unknown>) =>
+                    withInputValidation(
+                      request.action_name,
+                      execSchema.inputSchema,
+                      execSchema.execute,
+                    )(input, createExecutionContext(toolCallId, request.action_name))
+                : pillar.getHandler(request.action_name);
               if (!handler) {
                 throw new Error(
                   `No handler registered for action "${request.action_name}". ` +
@@ -165,6 +1140,8 @@ export function usePillarChat(options: UsePillarChatOptions = {}): UsePillarChat
 
               const raw = await Promise.resolve(handler(request.parameters));
               const normalized = normalizeToolResult(raw);
+              updateToolCall(toolCallId, { state: 'complete', output: normalized });
+              setToolProgress(toolCallId, request.action_name, { status: 'done' });
 
               await api.mcp.sendActionResult(
                 request.action_name,
@@ -173,6 +1150,8 @@ export function usePillarChat(options: UsePillarChatOptions = {}): UsePillarChat
               );
             } catch (err) {
               const errorMessage = err instanceof Error ? err.message : String(err);
+              updateToolCall(toolCallId, { state: 'error', error: errorMessage });
+              setToolProgress(toolCallId, request.action_name, { status: 'error' });
               await api.mcp.sendActionResult(
                 request.action_name,
                 { success: false, error: errorMessage },
@@ -180,32 +1159,418 @@ export function usePillarChat(options: UsePillarChatOptions = {}): UsePillarChat
               );
             }
           },
+        };
+
+        const response = await withRetry<ChatResponse>({
+          send: () =>
+            api.chat({
+              message: text,
+              history,
+              images: chatImages(userMsg.images),
+              userContext: [...readableStore.getContextItems(), ...documents],
+              existingConversationId: convId,
+              ...streamHandlers,
+            }),
+          resume: async () => {
+            // The agent had started answering: continue that answer
+            const status = serverAssistantId
+              ? await api.mcp.getConversationStatus(convId)
+              : null;
+            if (!status?.resumable || (status.message_id && status.message_id !== serverAssistantId)) {
+              throw new Error('The response was interrupted and cannot be resumed');
+            }
+            onToken = skipReceived(liveContent, appendToken);
+            return api.chat({
+              message: '',
+              existingConversationId: convId,
+              userContext: [...readableStore.getContextItems(), ...documents],
+              resume: true,
+              ...streamHandlers,
+            });
+          },
+          hasStarted: () => Boolean(serverAssistantId || liveContent),
+          retry: options.retry === false ? null : { ...DEFAULT_RETRY, ...options.retry },
+          signal: abortController.signal,
+          canRetry: isBrowserOnline,
         });
 
+        tokens.flush();
+        markDelivered();
+        if (!liveContent) {
+          liveContent = response.message;
+        }
+        // Not part of ChatResponse in @pillar-ai/sdk 0.1.x
+        const suggestions = toSuggestions(
+          'suggestions' in response ? response.suggestions : undefined,
+        );
         setMessages((prev) => {
           const idx = assistantIdx.current;
-          if (idx < 0 || idx >= prev.length) return prev;
+          if (idx < 0 || idx >= prev.length || prev[idx].id !== assistantId) return prev;
           const updated = [...prev];
           updated[idx] = {
             ...updated[idx],
             content: updated[idx].content || response.message,
             sources: response.sources,
-            id: updated[idx].id ?? response.messageId,
+            ...(response.messageId ? { serverId: response.messageId } : {}),
+            ...(suggestions ? { suggestions } : {}),
           };
           return updated;
         });
+
+        const followUps = options.followUps;
+        if (!suggestions && followUps) {
+          const turn = { question: text, answer: liveContent };
+          Promise.resolve()
+            .then(() => followUps(turn))
+            .then((suggested) => {
+              const checked = toSuggestions(suggested);
+              if (!checked) return;
+              setMessages((prev) =>
+                prev.map((m) => (m.id === assistantId ? { ...m, suggestions: checked } : m)),
+              );
+            })
+            .catch((err: unknown) => {
+              console.warn('[Pillar] Failed to load follow-up suggestions:', err);
+            });
+        }
       } catch (err) {
-        if ((err as Error).name === 'AbortError') return;
+        if ((err as Error).name === 'AbortError') {
+          // Stopped before the server saw it; there is nothing to track
+          if (!delivered) setUserStatus(undefined);
+          return;
+        }
+
+        // Drop an answer that never started so retry() can start clean
+        const isUnstarted = (m: PillarChatMessage) =>
+          m.id === assistantId && !liveContent && !m.content && !m.toolCalls?.length;
+
+        if (!delivered && !isBrowserOnline() && streamedIdRef.current === assistantId) {
+          // The connection went away: hold the message until it returns
+          setMessages((prev) => prev.filter((m) => m.id !== userMsg.id && !isUnstarted(m)));
+          setOutbox([{ ...userMsg, status: 'pending' }, ...outboxRef.current]);
+          setIsOnline(false);
+          return;
+        }
+
         const chatError = err instanceof Error ? err : new Error(String(err));
+        setMessages((prev) => prev.filter((m) => !isUnstarted(m)));
+        if (!delivered) setUserStatus('failed');
         setError(chatError);
         options.onError?.(chatError);
       } finally {
-        abortRef.current = null;
+        // Keep the partial answer when stopped
+        tokens.flush();
+        publishLive(false);
+        // An edit or regenerate may already have started the next run
+        if (abortRef.current === abortController) {
+          abortRef.current = null;
+          setIsLoading(false);
+        }
+      }
+    },
+    [
+      messages,
+      conversationId,
+      isReady,
+      options.onError,
+      options.retry,
+      setOutbox,
+      toolRegistry,
+      readableStore,
+      streamingStore,
+      clearStreamed,
+      options.streamUpdates,
+      options.followUps,
+      updateToolCall,
+    ],
+  );
+
+  const interrupt = useCallback(() => {
+    rejectPendingConfirmations();
+    abortRef.current?.abort();
+    abortRef.current = null;
+  }, [rejectPendingConfirmations]);
+
+  // Messages sent while a run was streaming (see the `concurrency` option)
+  const queueRef = useRef<QueueEntry[]>([]);
+  const [queuedMessages, setQueuedMessages] = useState<PillarQueuedMessage[]>([]);
+
+  const setQueue = useCallback((entries: QueueEntry[]) => {
+    queueRef.current = entries;
+    setQueuedMessages(entries.map((entry) => entry.message));
+  }, []);
+
+  const clearQueue = useCallback(() => {
+    const entries = queueRef.current;
+    setQueue([]);
+    entries.forEach((entry) => entry.resolve());
+  }, [setQueue]);
+
+  useEffect(
+    () => () => {
+      // Settle confirmations and queued sends, then abort the in-flight run
+      // (and any tool handlers watching its signal)
+      rejectPendingConfirmations();
+      clearQueue();
+      abortRef.current?.abort();
+      clearToolCalls();
+      clearStreamed();
+    },
+    [rejectPendingConfirmations, clearQueue, clearToolCalls, clearStreamed],
+  );
+
+  const sendMessage = useCallback(
+    (text: string, opts?: UserMessageOptions) => {
+      // Offline, or behind messages that are: wait in the outbox
+      if (!isBrowserOnline() || outboxRef.current.length > 0) {
+        setOutbox([...outboxRef.current, { ...createUserMessage(text, opts), status: 'pending' }]);
+        return Promise.resolve();
+      }
+
+      // Idle, with nothing queued ahead of this message
+      if (!abortRef.current && queueRef.current.length === 0) {
+        return runTurn(text, opts);
+      }
+
+      const concurrency = options.concurrency ?? 'interrupt';
+      if (concurrency === 'reject') {
+        options.onError?.(
+          new Error('A response is still streaming. Wait for it to finish or stop it first.'),
+        );
+        return Promise.resolve();
+      }
+
+      if (concurrency === 'interrupt') {
+        interrupt();
         setIsLoading(false);
       }
+
+      // Sent by the effect below once the current run has ended, so the
+      // turn sees the finished thread and conversation ID
+      return new Promise<void>((resolve) => {
+        const message: PillarQueuedMessage = {
+          id: crypto.randomUUID(),
+          text,
+          ...(opts?.images ? { images: opts.images } : {}),
+          ...(opts?.files ? { files: opts.files } : {}),
+        };
+        setQueue([...queueRef.current, { message, opts, resolve }]);
+      });
     },
-    [messages, conversationId, isReady, options.onError],
+    [
+      runTurn,
+      interrupt,
+      setQueue,
+      setOutbox,
+      options.concurrency,
+      options.onError,
+    ],
   );
+  sendMessageRef.current = sendMessage;
+
+  useEffect(() => {
+    if (!isOnline || isLoading || abortRef.current || queuedMessages.length === 0) return;
+    const [next, ...rest] = queueRef.current;
+    setQueue(rest);
+    void runTurn(next.message.text, next.opts).finally(next.resolve);
+  }, [isOnline, isLoading, queuedMessages, runTurn, setQueue]);
+
+  // Deliver the outbox once online, after anything queued before it
+  useEffect(() => {
+    if (!isOnline || isLoading || abortRef.current || queuedMessages.length > 0) return;
+    if (outbox.length === 0) return;
+    const [next, ...rest] = outboxRef.current;
+    setOutbox(rest);
+    void runTurn(
+      next.content,
+      { images: next.images, files: next.files, toolResultFor: next.toolResultFor },
+      { base: messages, userMessage: next },
+    );
+  }, [isOnline, isLoading, queuedMessages, outbox, messages, runTurn, setOutbox]);
+
+  const removeQueuedMessage = useCallback(
+    (id: string) => {
+      if (outboxRef.current.some((m) => m.id === id)) {
+        setOutbox(outboxRef.current.filter((m) => m.id !== id));
+        return;
+      }
+      const entry = queueRef.current.find((e) => e.message.id === id);
+      if (!entry) return;
+      setQueue(queueRef.current.filter((e) => e !== entry));
+      entry.resolve();
+    },
+    [setQueue, setOutbox],
+  );
+
+  /**
+   * Store the current thread from `at` onwards as a variant of the branch
+   * point at `at`, and make room for a new variant that becomes active.
+   */
+  const startBranch = useCallback(
+    (at: number) => {
+      const { before, after } = splitBranchPoints(branchPoints, at);
+      const current: BranchVariant = { tail: messages.slice(at), nested: after };
+      const existing = branchPoints[at];
+      const variants = existing
+        ? existing.variants.map((v, i) => (i === existing.active ? current : v))
+        : [current];
+      setBranchPoints({
+        ...before,
+        [at]: {
+          // The new variant's content lives in `messages` until switched away from
+          variants: [...variants, { tail: [], nested: {} }],
+          active: variants.length,
+        },
+      });
+    },
+    [branchPoints, messages],
+  );
+
+  const editMessage = useCallback(
+    async (messageId: string, text: string) => {
+      const index = messages.findIndex((m) => m.id === messageId);
+      if (index < 0 || messages[index].role !== 'user') {
+        console.warn(`[Pillar] editMessage: no user message with ID "${messageId}".`);
+        return;
+      }
+
+      interrupt();
+      const original = messages[index];
+      startBranch(index);
+      await runTurn(
+        text,
+        { images: original.images, files: original.files },
+        { base: messages.slice(0, index) },
+      );
+    },
+    [messages, interrupt, startBranch, runTurn],
+  );
+
+  const regenerate = useCallback(
+    async (messageId?: string) => {
+      const index =
+        messageId === undefined
+          ? messages.map((m) => m.role).lastIndexOf('assistant')
+          : messages.findIndex((m) => m.id === messageId);
+      if (index < 0 || messages[index].role !== 'assistant') {
+        console.warn(
+          messageId === undefined
+            ? '[Pillar] regenerate: there is no assistant message to regenerate.'
+            : `[Pillar] regenerate: no assistant message with ID "${messageId}".`,
+        );
+        return;
+      }
+
+      const userIndex = messages.slice(0, index).map((m) => m.role).lastIndexOf('user');
+      if (userIndex < 0) {
+        console.warn('[Pillar] regenerate: the assistant message has no preceding user message.');
+        return;
+      }
+
+      interrupt();
+      const userMessage = messages[userIndex];
+      startBranch(userIndex + 1);
+      await runTurn(
+        userMessage.content,
+        { images: userMessage.images, files: userMessage.files },
+        { base: messages.slice(0, userIndex), userMessage },
+      );
+    },
+    [messages, interrupt, startBranch, runTurn],
+  );
+
+  const retry = useCallback(async () => {
+    const userIndex = messages.map((m) => m.role).lastIndexOf('user');
+    if (userIndex < 0) {
+      console.warn('[Pillar] retry: there is no user message to re-send.');
+      return;
+    }
+
+    interrupt();
+    const userMessage = messages[userIndex];
+    // The replaced answer isn't kept as a version, so drop its branches
+    setBranchPoints(splitBranchPoints(branchPoints, userIndex + 1).before);
+    await runTurn(
+      userMessage.content,
+      { images: userMessage.images, files: userMessage.files },
+      { base: messages.slice(0, userIndex), userMessage },
+    );
+  }, [messages, branchPoints, interrupt, runTurn]);
+
+  const submitFeedback = useCallback(
+    async (messageId: string, feedback: PillarFeedbackInput) => {
+      const api = getApiClient();
+      if (!api) {
+        options.onError?.(new Error('Pillar SDK is not initialized'));
+        return;
+      }
+
+      const index = messages.findIndex((m) => m.id === messageId);
+      if (index < 0 || messages[index].role !== 'assistant') {
+        console.warn(`[Pillar] submitFeedback: no assistant message with ID "${messageId}".`);
+        return;
+      }
+      // Until the answer finishes, the server may not have sent its ID
+      if (isLoading && index === messages.length - 1) {
+        console.warn('[Pillar] submitFeedback: wait for the answer to finish.');
+        return;
+      }
+      // Pillar can only match feedback to answers it stored
+      const serverId = messages[index].serverId;
+      if (!serverId) {
+        console.warn(`[Pillar] submitFeedback: message "${messageId}" has no server ID to rate.`);
+        return;
+      }
+
+      const setFeedback = (status: PillarMessageFeedback['status']) => {
+        setMessages((prev) =>
+          prev.map((m) => (m.id === messageId ? { ...m, feedback: { ...feedback, status } } : m)),
+        );
+      };
+
+      setFeedback('submitting');
+      // Resolves once the request is sent; the SDK swallows failures
+      await api.submitFeedback(serverId, feedback.rating, feedbackComment(feedback));
+      setFeedback('submitted');
+    },
+    [messages, isLoading, options.onError],
+  );
+
+  const switchBranch = useCallback(
+    (messageId: string, index: number) => {
+      const at = messages.findIndex((m) => m.id === messageId);
+      const point = branchPoints[at];
+      if (!point || index < 0 || index >= point.variants.length) {
+        console.warn(`[Pillar] switchBranch: message "${messageId}" has no version ${index}.`);
+        return;
+      }
+      if (index === point.active) return;
+      if (isLoading) {
+        console.warn('[Pillar] switchBranch: wait for the current response to finish.');
+        return;
+      }
+
+      const { before, after } = splitBranchPoints(branchPoints, at);
+      const target = point.variants[index];
+      const variants = point.variants.map((v, i) =>
+        i === point.active ? { tail: messages.slice(at), nested: after } : v,
+      );
+      setBranchPoints({ ...before, [at]: { variants, active: index }, ...target.nested });
+      setMessages([...messages.slice(0, at), ...target.tail]);
+    },
+    [messages, branchPoints, isLoading],
+  );
+
+  const branches = useMemo(() => {
+    const result: Record<string, PillarMessageBranches> = {};
+    Object.entries(branchPoints).forEach(([key, point]) => {
+      const id = messages[Number(key)]?.id;
+      if (id) {
+        result[id] = { index: point.active, count: point.variants.length };
+      }
+    });
+    return result;
+  }, [branchPoints, messages]);
 
   const uploadImage = useCallback(async (file: File): Promise<ImageUploadResponse> => {
     const api = getApiClient();
@@ -213,20 +1578,91 @@ export function usePillarChat(options: UsePillarChatOptions = {}): UsePillarChat
     return api.uploadImage(file);
   }, []);
 
+  const uploadFile = useCallback(
+    (file: File) => prepareChatFile(file, options.extractText),
+    [options.extractText],
+  );
+
   const stop = useCallback(() => {
+    rejectPendingConfirmations();
     abortRef.current?.abort();
     abortRef.current = null;
     setIsLoading(false);
-  }, []);
+  }, [rejectPendingConfirmations]);
 
   const reset = useCallback(() => {
+    rejectPendingConfirmations();
+    clearQueue();
+    setOutbox([]);
     abortRef.current?.abort();
     abortRef.current = null;
+    clearToolCalls();
+    clearStreamed();
+    const persistence = persistenceRef.current;
+    if (persistence) {
+      // Start fresh on next mount; the old conversation stays in storage
+      void Promise.resolve(
+        persistence.adapter.removeItem(activeConversationKey(persistence.namespace)),
+      ).catch(() => {});
+    }
     setMessages([]);
+    setBranchPoints({});
     setConversationId(null);
     setIsLoading(false);
     setError(null);
-  }, []);
+  }, [clearToolCalls, clearStreamed, rejectPendingConfirmations, clearQueue, setOutbox]);
+
+  const loadConversation = useCallback(
+    async (id: string) => {
+      const api = getApiClient();
+      if (!api) {
+        const err = new Error('Pillar SDK is not initialized');
+        setError(err);
+        options.onError?.(err);
+        return;
+      }
+
+      rejectPendingConfirmations();
+      clearQueue();
+      setOutbox([]);
+      abortRef.current?.abort();
+      abortRef.current = null;
+      clearToolCalls();
+      setIsLoading(false);
+      setError(null);
+
+      try {
+        const detail = await api.getConversation(id);
+        if (!detail) {
+          throw new Error(`Conversation "${id}" was not found`);
+        }
+        setMessages(
+          (detail.messages as ServerHistoryMessage[]).map(fromHistoryMessage),
+        );
+        setBranchPoints({});
+        setConversationId(detail.id);
+      } catch (err) {
+        const loadError = err instanceof Error ? err : new Error(String(err));
+        setError(loadError);
+        options.onError?.(loadError);
+      }
+    },
+    [clearToolCalls, rejectPendingConfirmations, clearQueue, setOutbox, options.onError],
+  );
+
+  const download = useCallback(
+    (downloadOptions?: Partial<TranscriptExportOptions> & { filename?: string }) => {
+      const format = downloadOptions?.format ?? 'markdown';
+      downloadTranscript(messages, {
+        ...downloadOptions,
+        format,
+        filename:
+          downloadOptions?.filename ??
+          `transcript-${conversationId ?? 'chat'}.${TRANSCRIPT_FILE_EXTENSIONS[format]}`,
+      });
+    },
+    [messages, conversationId],
+  );
 
   return {
     messages,
@@ -234,8 +1670,22 @@ export function usePillarChat(options: UsePillarChatOptions = {}): UsePillarChat
     isLoading,
     error,
     uploadImage,
+    uploadFile,
     stop,
     reset,
     conversationId,
+    pendingConfirmations,
+    queuedMessages,
+    removeQueuedMessage,
+    isOnline,
+    outbox,
+    loadConversation,
+    editMessage,
+    regenerate,
+    branches,
+    switchBranch,
+    retry,
+    submitFeedback,
+    download,
   };
 }
@@ -0,0 +1,89 @@
+/**
+ * usePillarReadable Hook
+ * Expose live React state to the agent as context
+ */
+
+import { useEffect, useMemo, useSyncExternalStore } from 'react';
+import { useReadableStore } from '../PillarProvider';
+import type { PillarReadableEntry } from '../utils/readableStore';
+
+export interface UsePillarReadableOptions<T = unknown> {
+  /** Unique key for this piece of context (e.g. "current_project"). */
+  key: string;
+  /** Tells the agent what the value is. */
+  description: string;
+  /** Any JSON-serializable value. Updates are picked up on the next message. */
+  value: T;
+  /**
+   * Maximum size of the serialized value, in characters.
+   * Larger values are truncated. Defaults to 4000.
+   */
+  maxSize?: number;
+  /** Set to false to stop sending this context without unmounting (default: true). */
+  enabled?: boolean;
+}
+
+/**
+ * Register component-scoped context that is sent with every message, from
+ * both the panel and `usePillarChat`. The context is added on mount, kept in
+ * sync with `value`, and removed on unmount.
+ *
+ * @example
+ * ```tsx
+ * function ProjectPage({ project, selectedRows }) {
+ *   usePillarReadable({
+ *     key: 'current_project',
+ *     description: 'The project the user is viewing',
+ *     value: { id: project.id, name: project.name },
+ *   });
+ *
+ *   usePillarReadable({
+ *     key: 'selected_rows',
+ *     description: 'Rows the user has selected in the table',
+ *     value: selectedRows.map((r) => r.id),
+ *   });
+ *
+ *   return <ProjectTable />;
+ * }
+ * ```
+ */
+export function usePillarReadable<T = unknown>({
+  key,
+  description,
+  value,
+  maxSize,
+  enabled = true,
+}: UsePillarReadableOptions<T>): void {
+  const store = useReadableStore();
+
+  // Compare by content so new-but-equal objects don't re-register every render
+  const serialized = useMemo(() => {
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return String(value);
+    }
+  }, [value]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    return store.set({ key, description, value, maxSize });
+  }, [store, key, description, serialized, maxSize, enabled]);
+}
+
+/**
+ * Inspect the readable context that will be sent with the next message,
+ * after size limits are applied. Re-renders when any readable changes.
+ *
+ * @example
+ * ```tsx
+ * function ContextDebugger() {
+ *   const readables = usePillarReadables();
+ *   return <pre>{JSON.stringify(readables, null, 2)}</pre>;
+ * }
+ * ```
+ */
+export function usePillarReadables(): PillarReadableEntry[] {
+  const store = useReadableStore();
+  return useSyncExternalStore(store.subscribe, store.getEntries, store.getEntries);
+}
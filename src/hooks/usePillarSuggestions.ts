@@ -0,0 +1,207 @@
+/**
+ * usePillarSuggestions Hook
+ * Conversation starters and follow-up prompts for custom chat UIs
+ */
+
+import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { getApiClient } from '@pillar-ai/sdk';
+import { usePillarContext, useSuggestionStore } from '../PillarProvider';
+import { matchesPath, type PillarSuggestion } from '../utils/suggestionStore';
+import { usePillarReadables } from './usePillarReadable';
+import type { UsePillarChatReturn } from './usePillarChat';
+
+export interface UsePillarSuggestionsOptions {
+  /** Set to false to stop offering these suggestions without unmounting (default: true). */
+  enabled?: boolean;
+}
+
+/**
+ * Register conversation starters for the current page. They are offered
+ * by `useSuggestions` while the component is mounted and removed on
+ * unmount.
+ *
+ * @example
+ * ```tsx
+ * function BillingPage() {
+ *   usePillarSuggestions([
+ *     { text: 'Why did my invoice go up?' },
+ *     { text: 'Explain the selected charges', readable: 'selected_charges' },
+ *   ]);
+ *
+ *   return <Invoices />;
+ * }
+ * ```
+ */
+export function usePillarSuggestions(
+  suggestions: PillarSuggestion[],
+  { enabled = true }: UsePillarSuggestionsOptions = {},
+): void {
+  const store = useSuggestionStore();
+
+  // Compare by content so inline arrays don't re-register every render
+  const serialized = useMemo(() => JSON.stringify(suggestions), [suggestions]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    return store.add(suggestions);
+  }, [store, serialized, enabled]);
+}
+
+export interface UseSuggestionsOptions {
+  /**
+   * The chat to suggest prompts for. Starters are offered before its first
+   * message, and follow-ups after each answer.
+   */
+  chat?: Pick<UsePillarChatReturn, 'messages' | 'isLoading' | 'sendMessage'>;
+  /**
+   * Current route (default: `window.location.pathname`). Pass your
+   * router's pathname so starters follow client-side navigation.
+   */
+  pathname?: string;
+  /** Also offer the suggested questions configured for the agent in Pillar (default: true). */
+  includeServer?: boolean;
+  /** Offer at most this many suggestions (default: 3). */
+  limit?: number;
+  /**
+   * After an answer without its own `suggestions`, offer the starters that
+   * haven't been asked in the thread yet (default: true).
+   */
+  startersAsFollowUps?: boolean;
+}
+
+export interface UseSuggestionsReturn {
+  suggestions: PillarSuggestion[];
+  /** `'starters'` before the first message, `'follow-ups'` after it. */
+  kind: 'starters' | 'follow-ups';
+  /** Send a suggestion as the next message. Needs `chat`. */
+  select: (suggestion: PillarSuggestion) => Promise<void>;
+}
+
+/**
+ * Structural shape of the questions returned by `api.getSuggestedQuestions()`.
+ */
+interface ServerSuggestedQuestion {
+  id: string;
+  text: string;
+  manual?: boolean;
+  pathPattern?: string;
+}
+
+function useLocationPathname(override: string | undefined): string {
+  const [pathname, setPathname] = useState(() =>
+    typeof window === 'undefined' ? '/' : window.location.pathname,
+  );
+
+  useEffect(() => {
+    if (override !== undefined || typeof window === 'undefined') return;
+    const update = () => setPathname(window.location.pathname);
+    window.addEventListener('popstate', update);
+    return () => window.removeEventListener('popstate', update);
+  }, [override]);
+
+  return override ?? pathname;
+}
+
+/**
+ * Suggested prompts for a custom chat: starters chosen by route and
+ * readable context before the first message, then follow-ups after each
+ * answer. Follow-ups are the answer's `suggestions`, or else the starters
+ * not asked yet.
+ *
+ * @example
+ * ```tsx
+ * function Suggestions({ chat }) {
+ *   const { suggestions, select } = useSuggestions({ chat, pathname: router.pathname });
+ *
+ *   return suggestions.map((s) => (
+ *     <button key={s.id ?? s.text} onClick={() => select(s)}>
+ *       {s.label ?? s.text}
+ *     </button>
+ *   ));
+ * }
+ * ```
+ */
+export function useSuggestions(options: UseSuggestionsOptions = {}): UseSuggestionsReturn {
+  const { chat, includeServer = true, limit = 3, startersAsFollowUps = true } = options;
+  const { isReady } = usePillarContext();
+  const store = useSuggestionStore();
+  const registered = useSyncExternalStore(store.subscribe, store.getAll, store.getAll);
+  const readables = usePillarReadables();
+  const pathname = useLocationPathname(options.pathname);
+  const [serverSuggestions, setServerSuggestions] = useState<PillarSuggestion[]>([]);
+
+  useEffect(() => {
+    if (!isReady || !includeServer) return;
+    const api = getApiClient();
+    if (!api) return;
+    let cancelled = false;
+
+    api
+      .getSuggestedQuestions()
+      .then((questions: ServerSuggestedQuestion[]) => {
+        if (cancelled) return;
+        // Questions pinned by an admin rank first
+        const sorted = [...questions].sort((a, b) => Number(Boolean(b.manual)) - Number(Boolean(a.manual)));
+        setServerSuggestions(
+          sorted.map((q) => ({
+            id: q.id,
+            text: q.text,
+            ...(q.pathPattern ? { path: q.pathPattern } : {}),
+          })),
+        );
+      })
+      .catch((err: unknown) => {
+        console.warn('[Pillar] Failed to load suggested questions:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isReady, includeServer]);
+
+  const starters = useMemo(() => {
+    const readableKeys = new Set(readables.map((entry) => entry.key));
+    const seen = new Set<string>();
+
+    return [...registered, ...(includeServer ? serverSuggestions : [])].filter((suggestion) => {
+      if (suggestion.path && !matchesPath(suggestion.path, pathname)) return false;
+      if (suggestion.readable && !readableKeys.has(suggestion.readable)) return false;
+      if (seen.has(suggestion.text)) return false;
+      seen.add(suggestion.text);
+      return true;
+    });
+  }, [registered, serverSuggestions, includeServer, readables, pathname]);
+
+  const messages = chat?.messages;
+  const hasMessages = Boolean(messages?.length);
+
+  const followUps = useMemo(() => {
+    const last = messages?.[messages.length - 1];
+    if (!messages || last?.role !== 'assistant') return [];
+    if (last.suggestions?.length) return last.suggestions;
+    if (!startersAsFollowUps) return [];
+    const asked = new Set(messages.filter((m) => m.role === 'user').map((m) => m.content.trim()));
+    return starters.filter((suggestion) => !asked.has(suggestion.text.trim()));
+  }, [messages, starters, startersAsFollowUps]);
+
+  const select = useCallback(
+    async (suggestion: PillarSuggestion) => {
+      if (!chat) {
+        console.warn('[Pillar] useSuggestions: pass `chat` to send suggestions.');
+        return;
+      }
+      await chat.sendMessage(suggestion.text);
+    },
+    [chat],
+  );
+
+  if (!hasMessages) {
+    return { suggestions: starters.slice(0, limit), kind: 'starters', select };
+  }
+  return {
+    // Nothing to follow up on while the answer is still streaming
+    suggestions: chat?.isLoading ? [] : followUps.slice(0, limit),
+    kind: 'follow-ups',
+    select,
+  };
+}
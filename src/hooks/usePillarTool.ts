@@ -144,7 +144,16 @@ import type {
 } from "@pillar-ai/sdk";
 import { createDefaultConfirmCard } from "@pillar-ai/sdk";
 import React, { useEffect, useMemo, useRef, useSyncExternalStore, type ComponentType } from "react";
-import { usePillarContext, usePortalRegistry } from "../PillarProvider";
+import {
+  usePillarContext,
+  usePortalRegistry,
+  useToolRegistry,
+} from "../PillarProvider";
+import {
+  toJSONInputSchema,
+  withInputValidation,
+  type ToolInputSchema,
+} from "../utils/standardSchema";
 
 /**
  * Props passed to tool render components.
@@ -194,13 +203,38 @@ export interface ConfirmationRenderProps<T = Record<string, unknown>> {
   isLatest: boolean;
 }
 
+/**
+ * Second argument passed to a React tool's `execute` handler.
+ */
+export interface ToolExecutionContext {
+  /**
+   * Aborted when the run is stopped or reset, or when the component that
+   * owns the tool (or chat) unmounts. Pass it to `fetch` and friends.
+   */
+  signal: AbortSignal;
+  /** ID of this tool invocation, when the server provided one. */
+  toolCallId?: string;
+  /** Conversation the call belongs to, if known. */
+  conversationId: string | null;
+  /** Index of the assistant message that triggered the call (headless chat only). */
+  messageIndex?: number;
+  /**
+   * Report a short progress label (e.g. "Uploading 3 of 10 files").
+   * In `usePillarChat` this appears as a `tool_progress` entry in the
+   * assistant message's `progressEvents`.
+   */
+  reportProgress: (label: string) => void;
+}
+
 /**
  * React inline_ui tool schema. Requires `render`, forbids `execute`.
  *
  * The AI agent provides data directly to the React component.
  */
 export interface ReactInlineUIToolSchema<TInput = Record<string, unknown>>
-  extends Omit<InlineUIToolSchema<TInput>, "render"> {
+  extends Omit<InlineUIToolSchema<TInput>, "render" | "inputSchema"> {
+  /** JSON Schema or a Standard Schema (Zod, Valibot, ArkType, ...) for `data`. */
+  inputSchema?: ToolInputSchema<TInput>;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   render: ComponentType<ToolRenderProps<any>>;
 }
@@ -212,7 +246,22 @@ export interface ReactInlineUIToolSchema<TInput = Record<string, unknown>>
  * execution behind user approval.
  */
 export interface ReactExecutableToolSchema<TInput = Record<string, unknown>>
-  extends ExecutableToolSchema<TInput> {
+  extends Omit<ExecutableToolSchema<TInput>, "execute" | "inputSchema"> {
+  /**
+   * JSON Schema or a Standard Schema (Zod, Valibot, ArkType, ...) for the input.
+   * With a Standard Schema, the `execute` input type is inferred from it and
+   * the AI's arguments are validated before `execute` runs. Invalid arguments
+   * are sent back to the agent as a `validation_error` result.
+   */
+  inputSchema?: ToolInputSchema<TInput>;
+  /**
+   * Handler executed when the AI invokes this tool.
+   * Receives the tool input and a `ToolExecutionContext`.
+   */
+  execute: (
+    input: TInput,
+    context: ToolExecutionContext
+  ) => ReturnType<ExecutableToolSchema<TInput>["execute"]>;
   /**
    * When true, the SDK shows a confirmation UI before calling `execute`.
    * Uses default Confirm / Cancel buttons unless `renderConfirmation` is provided.
@@ -265,15 +314,19 @@ function ErrorFallbackUI() {
 /**
  * Error boundary that catches render errors from inline_ui tool components.
  * Displays a fallback UI and notifies the LLM about the error.
+ *
+ * Pass `sendResult` to report the error through a headless chat instead of
+ * the panel (used by `PillarToolCard`).
  */
 interface InlineUIErrorBoundaryProps {
   toolName: string;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   pillar: any;
+  sendResult?: (result: Record<string, unknown>) => Promise<void>;
   children?: React.ReactNode;
 }
 
-class InlineUIErrorBoundary extends React.Component<
+export class InlineUIErrorBoundary extends React.Component<
   InlineUIErrorBoundaryProps,
   { hasError: boolean; error: Error | null }
 > {
@@ -287,11 +340,16 @@ class InlineUIErrorBoundary extends React.Component<
   }
 
   componentDidCatch(error: Error) {
-    this.props.pillar.sendToolResultAsMessage(this.props.toolName, {
+    const result = {
       success: false,
       error: `Component render error: ${error.message}`,
       errorType: "render_error",
-    });
+    };
+    if (this.props.sendResult) {
+      void this.props.sendResult(result);
+      return;
+    }
+    this.props.pillar?.sendToolResultAsMessage(this.props.toolName, result);
   }
 
   render() {
@@ -421,6 +479,26 @@ function ReactiveConfirmWrapper({
   });
 }
 
+/**
+ * Build the execution context for tools run by the panel. The core SDK
+ * does not pass call metadata to handlers, so only the conversation ID,
+ * an unmount signal and (for confirmations) the message index are known.
+ * Progress reports are only surfaced by `usePillarChat`.
+ */
+function createPanelExecutionContext(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  pillar: any,
+  signal: AbortSignal,
+  messageIndex?: number
+): ToolExecutionContext {
+  return {
+    signal,
+    conversationId: pillar.getChatContext?.()?.conversationId ?? null,
+    messageIndex,
+    reportProgress: () => {},
+  };
+}
+
 /**
  * Register one or more Pillar tools with co-located metadata and handlers.
  *
@@ -434,12 +512,14 @@ function ReactiveConfirmWrapper({
  *
  * @param schemaOrSchemas - Single tool schema or array of tool schemas
  */
-export function usePillarTool(
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function usePillarTool<TInput = any>(
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  schemaOrSchemas: ReactToolSchema<any> | ReactToolSchema<any>[]
+  schemaOrSchemas: ReactToolSchema<TInput> | ReactToolSchema<any>[]
 ): void {
   const { pillar } = usePillarContext();
   const registerPortal = usePortalRegistry();
+  const toolRegistry = useToolRegistry();
 
   // Normalize to array for consistent handling
   const schemas = useMemo(
@@ -468,8 +548,15 @@ export function usePillarTool(
     const unsubscribes: Array<() => void> = [];
     const portalCleanups: Array<() => void> = [];
     let idCounter = 0;
+    // Aborted on unmount so long-running handlers can bail out
+    const abortController = new AbortController();
 
     schemasRef.current.forEach((schema, index) => {
+      // Expose the React schema to headless chat (usePillarChat / PillarToolCard)
+      unsubscribes.push(
+        toolRegistry.registerTool(schema.name, () => schemasRef.current[index])
+      );
+
       if (schema.type === "inline_ui") {
         const RenderComponent = schema.render;
         const cardType = schema.name;
@@ -525,7 +612,10 @@ export function usePillarTool(
 
         // Register tool definition (without render) so the SDK knows about it
         const { render: _render, ...sdkSchema } = schema;
-        const unsubTool = pillar.defineTool(sdkSchema as ToolSchema);
+        const unsubTool = pillar.defineTool({
+          ...sdkSchema,
+          inputSchema: toJSONInputSchema(schema.inputSchema, schema.name),
+        } as ToolSchema);
         unsubscribes.push(unsubTool);
       } else {
         const execSchema = schema as ReactExecutableToolSchema<
@@ -548,6 +638,7 @@ export function usePillarTool(
           // Mark as needsConfirmation so the core SDK knows to show a card
           const unsubTool = pillar.defineTool({
             ...sdkSchema,
+            inputSchema: toJSONInputSchema(schema.inputSchema, schema.name),
             needsConfirmation: true,
           } as unknown as ToolSchema);
           unsubscribes.push(unsubTool);
@@ -570,7 +661,19 @@ export function usePillarTool(
 
                 try {
                   callbacks.onStateChange?.("loading");
-                  const result = await currentSchema.execute(executeData);
+                  const execute = withInputValidation(
+                    schema.name,
+                    currentSchema.inputSchema,
+                    currentSchema.execute
+                  );
+                  const result = await execute(
+                    executeData,
+                    createPanelExecutionContext(
+                      pillar,
+                      abortController.signal,
+                      context?.messageIndex
+                    )
+                  );
                   pillar.clearPendingConfirmation(schema.name);
                   if (result !== undefined) {
                     pillar.sendToolResultAsMessage(
@@ -648,15 +751,22 @@ export function usePillarTool(
           // Executable tool without confirmation: register execute handler directly
           const unsubTool = pillar.defineTool({
             ...schema,
+            inputSchema: toJSONInputSchema(schema.inputSchema, schema.name),
             // Wrap execute to always use the latest ref version
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            execute: (input: any) =>
-              (
-                schemasRef.current[index] as ReactExecutableToolSchema<
-                  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                  any
-                >
-              ).execute(input),
+            execute: (input: any) => {
+              const currentSchema = schemasRef.current[
+                index
+              ] as ReactExecutableToolSchema<
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                any
+              >;
+              return withInputValidation(
+                schema.name,
+                currentSchema.inputSchema,
+                currentSchema.execute
+              )(input, createPanelExecutionContext(pillar, abortController.signal));
+            },
           } as ToolSchema);
 
           unsubscribes.push(unsubTool);
@@ -664,12 +774,13 @@ export function usePillarTool(
       }
     });
 
-    // Cleanup: unregister all tools, cards, and portals
+    // Cleanup: abort running handlers, unregister all tools, cards, and portals
     return () => {
+      abortController.abort();
       unsubscribes.forEach((unsub) => unsub());
       portalCleanups.forEach((cleanup) => cleanup());
     };
-  }, [pillar, toolNamesKey]);
+  }, [pillar, toolNamesKey, toolRegistry]);
 }
 
 /** @deprecated Use usePillarTool instead */
@@ -0,0 +1,38 @@
+/**
+ * useStreamingMessage Hook
+ * Subscribe a single message bubble to its live streaming content
+ */
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { useStreamingStore } from '../PillarProvider';
+import type { PillarStreamingMessage } from '../utils/streamingStore';
+
+/**
+ * Read the live content of a `usePillarChat` assistant message while it
+ * streams. Only the calling component re-renders on each token, so the
+ * message list can use `streamUpdates: 'end'` (or `'frame'`) and stay still.
+ *
+ * Returns `undefined` for messages that are not streaming; fall back to the
+ * message's own `content` in that case.
+ *
+ * @example
+ * ```tsx
+ * const MessageBubble = memo(function MessageBubble({ message }) {
+ *   const live = useStreamingMessage(message.id);
+ *   return <p>{live?.content ?? message.content}</p>;
+ * });
+ * ```
+ */
+export function useStreamingMessage(
+  id: string | undefined,
+): PillarStreamingMessage | undefined {
+  const store = useStreamingStore();
+
+  const subscribe = useCallback(
+    (listener: () => void) => (id ? store.subscribe(id, listener) : () => {}),
+    [store, id],
+  );
+  const getSnapshot = useCallback(() => (id ? store.get(id) : undefined), [store, id]);
+
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+}
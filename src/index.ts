@@ -54,6 +54,19 @@ export {
 
 // Components
 export { PillarPanel, type PillarPanelProps } from './PillarPanel';
+export { PillarToolCard, type PillarToolCardProps } from './PillarToolCard';
+export {
+    PillarChat,
+    usePillarChatContext,
+    type PillarChatRootProps,
+    type PillarChatMessagesProps,
+    type PillarChatMessageProps,
+    type PillarChatComposerProps,
+    type PillarChatSourcesProps,
+    type PillarChatProgressProps,
+    type PillarChatFeedbackProps,
+} from './PillarChat';
+export { PillarMarkdown, type PillarMarkdownProps } from './PillarMarkdown';
 
 // Hooks
 export { useHelpPanel, type UseHelpPanelResult } from './hooks/useHelpPanel';
@@ -63,6 +76,7 @@ export {
     usePillarAction,
     type ToolRenderProps,
     type ConfirmationRenderProps,
+    type ToolExecutionContext,
     type ReactToolSchema,
     type ReactInlineUIToolSchema,
     type ReactExecutableToolSchema,
@@ -76,39 +90,136 @@ export {
     type ToolWithCard,
     type ToolDefinition,
 } from './hooks/usePillarTools';
+export {
+    usePillarReadable,
+    usePillarReadables,
+    type UsePillarReadableOptions,
+} from './hooks/usePillarReadable';
+export type { PillarReadableEntry } from './utils/readableStore';
+export {
+    usePillarSuggestions,
+    useSuggestions,
+    type UsePillarSuggestionsOptions,
+    type UseSuggestionsOptions,
+    type UseSuggestionsReturn,
+} from './hooks/usePillarSuggestions';
+export type { PillarSuggestion } from './utils/suggestionStore';
 export {
     usePillarChat,
     type PillarChatMessage,
+    type PillarMessageStatus,
+    type PillarFeedbackInput,
+    type PillarMessageFeedback,
+    type PillarChatImage,
+    type PillarChatFile,
+    type PillarToolCallPart,
+    type PillarToolCallState,
+    type PillarPendingConfirmation,
+    type PillarMessageBranches,
+    type PillarChatConcurrency,
+    type PillarChatRetryOptions,
+    type PillarQueuedMessage,
     type UsePillarChatOptions,
     type UsePillarChatReturn,
 } from './hooks/usePillarChat';
 
+export { useStreamingMessage } from './hooks/useStreamingMessage';
+export type { PillarStreamingMessage } from './utils/streamingStore';
+export { MAX_DOCUMENT_LENGTH, type PillarTextExtractor } from './utils/attachments';
+
+export {
+    useConversations,
+    MAX_LISTED_CONVERSATIONS,
+    type PillarConversation,
+    type PillarConversationActionResult,
+    type UseConversationsOptions,
+    type UseConversationsReturn,
+} from './hooks/useConversations';
+
+export {
+    useChatAttachments,
+    DEFAULT_ATTACHMENT_TYPES,
+    DOCUMENT_ATTACHMENT_TYPES,
+    type PillarChatAttachment,
+    type PillarAttachmentStatus,
+    type UseChatAttachmentsOptions,
+    type UseChatAttachmentsReturn,
+} from './hooks/useChatAttachments';
+
 // Message converters (headless chat → AI SDK, AG-UI, simple)
 export {
     toUIMessages,
+    fromUIMessages,
     usePillarChatUIMessages,
     type UsePillarChatUIMessagesReturn,
+    createPillarChatTransport,
+    usePillarChatTransport,
+    type PillarChatTransportOptions,
+    type PillarChatTransport,
+    type PillarChatTransportSendOptions,
+    type PillarUIMessageChunk,
+    type TransportUIMessage,
     toAGUIMessages,
+    fromAGUIMessages,
     usePillarChatAGUI,
     type UsePillarChatAGUIReturn,
+    createPillarAGUIAgent,
+    usePillarAGUIAgent,
     toSimpleMessages,
+    fromSimpleMessages,
+    toAnthropicMessages,
+    toOpenAIResponsesInput,
+    exportTranscript,
+    downloadTranscript,
+    type TranscriptFormat,
+    type TranscriptExportOptions,
     type ConverterOptions,
     type PillarUIMessage,
     type PillarUIMessagePart,
+    type PillarUIToolPart,
     type PillarAGUIMessage,
     type AGUIUserMessage,
     type AGUIAssistantMessage,
+    type AGUIToolMessage,
+    type AGUIToolCall,
     type AGUIActivityMessage,
     type AGUIReasoningMessage,
     type AGUIInputContent,
     type AGUITextInput,
     type AGUIBinaryInput,
+    type AGUIRunMessage,
+    type AGUIRunAgentInput,
+    type AGUIJsonPatchOperation,
+    type AGUIEvent,
+    type AGUIEventObserver,
+    type PillarAGUIAgent,
     type PillarSimpleMessage,
     type SimpleContentPart,
+    type AnthropicContentBlock,
+    type AnthropicMessageParam,
+    type OpenAIResponsesInputContent,
+    type OpenAIResponsesInputItem,
 } from './converters';
 
+// Conversation persistence for usePillarChat
+export {
+    createLocalStorageAdapter,
+    createIndexedDBAdapter,
+    type LocalStorageAdapterOptions,
+    type IndexedDBAdapterOptions,
+    type PillarChatStorageAdapter,
+    type PillarChatPersistenceOptions,
+    type PersistedConversation,
+} from './persistence';
+
 // Utilities
-export { defineTool } from './utils/defineTool';
+export { defineTool, type StandardToolSchema } from './utils/defineTool';
+export {
+    type StandardSchemaV1,
+    type StandardSchemaIssue,
+    type InferSchemaOutput,
+    type ToolInputSchema,
+} from './utils/standardSchema';
 
 // Re-export types from core SDK for convenience
 export type {
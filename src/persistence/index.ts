@@ -0,0 +1,10 @@
+// Storage adapters
+export { createLocalStorageAdapter, type LocalStorageAdapterOptions } from './localStorage';
+export { createIndexedDBAdapter, type IndexedDBAdapterOptions } from './indexedDB';
+
+// Types
+export type {
+  PillarChatStorageAdapter,
+  PillarChatPersistenceOptions,
+  PersistedConversation,
+} from './types';
@@ -0,0 +1,84 @@
+/**
+ * IndexedDB persistence adapter.
+ */
+
+import type { PillarChatStorageAdapter } from './types';
+
+export interface IndexedDBAdapterOptions {
+  /** Database name (default: "pillar-chat"). */
+  dbName?: string;
+  /** Object store name (default: "conversations"). */
+  storeName?: string;
+}
+
+/**
+ * Store conversations in IndexedDB. Asynchronous, with far more room than
+ * localStorage — a better fit for long threads with many progress events.
+ */
+export function createIndexedDBAdapter(
+  options: IndexedDBAdapterOptions = {},
+): PillarChatStorageAdapter {
+  const dbName = options.dbName ?? 'pillar-chat';
+  const storeName = options.storeName ?? 'conversations';
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+        const request = indexedDB.open(dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a retry after a failed open
+      dbPromise.catch(() => {
+        dbPromise = null;
+      });
+    }
+    return dbPromise;
+  };
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> => {
+    const db = await openDb();
+    return new Promise<T>((resolve, reject) => {
+      const request = fn(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    getItem: async (key) => {
+      try {
+        const value = await run<unknown>('readonly', (store) => store.get(key));
+        return typeof value === 'string' ? value : null;
+      } catch (err) {
+        console.warn('[Pillar] Failed to read persisted conversation:', err);
+        return null;
+      }
+    },
+    setItem: async (key, value) => {
+      try {
+        await run('readwrite', (store) => store.put(value, key));
+      } catch (err) {
+        console.warn('[Pillar] Failed to persist conversation:', err);
+      }
+    },
+    removeItem: async (key) => {
+      try {
+        await run('readwrite', (store) => store.delete(key));
+      } catch (err) {
+        console.warn('[Pillar] Failed to remove persisted conversation:', err);
+      }
+    },
+  };
+}
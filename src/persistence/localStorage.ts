@@ -0,0 +1,53 @@
+/**
+ * localStorage persistence adapter.
+ */
+
+import type { PillarChatStorageAdapter } from './types';
+
+export interface LocalStorageAdapterOptions {
+  /** Key prefix (default: "pillar-chat:"). */
+  prefix?: string;
+  /** Storage to use (default: window.localStorage). Pass sessionStorage for per-tab threads. */
+  storage?: Storage;
+}
+
+/**
+ * Store conversations in localStorage. Synchronous and simple, but limited
+ * to a few MB per origin — keep `maxSize` well below that.
+ */
+export function createLocalStorageAdapter(
+  options: LocalStorageAdapterOptions = {},
+): PillarChatStorageAdapter {
+  const prefix = options.prefix ?? 'pillar-chat:';
+  const getStorage = (): Storage | null => {
+    if (options.storage) return options.storage;
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  };
+
+  return {
+    getItem: (key) => {
+      try {
+        return getStorage()?.getItem(prefix + key) ?? null;
+      } catch (err) {
+        // Storage disabled, e.g. blocked third-party storage in an iframe
+        console.warn('[Pillar] Failed to read persisted conversation:', err);
+        return null;
+      }
+    },
+    setItem: (key, value) => {
+      try {
+        getStorage()?.setItem(prefix + key, value);
+      } catch (err) {
+        // Quota exceeded or storage disabled (e.g. private mode)
+        console.warn('[Pillar] Failed to persist conversation:', err);
+      }
+    },
+    removeItem: (key) => {
+      try {
+        getStorage()?.removeItem(prefix + key);
+      } catch (err) {
+        console.warn('[Pillar] Failed to remove persisted conversation:', err);
+      }
+    },
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Versioned (de)serialization for persisted conversations.
+ */
+
+import type { PillarChatMessage } from '../hooks/usePillarChat';
+import type { PersistedConversation } from './types';
+
+/** Bump when the persisted shape changes incompatibly. */
+export const PERSISTENCE_VERSION = 1;
+
+export const DEFAULT_MAX_MESSAGES = 200;
+export const DEFAULT_MAX_SIZE = 500_000;
+
+/** Storage key for a conversation's messages. */
+export function conversationKey(conversationId: string): string {
+  return `conversation:${conversationId}`;
+}
+
+/** Storage key for the last active conversation in a namespace. */
+export function activeConversationKey(namespace = 'default'): string {
+  return `active:${namespace}`;
+}
+
+/** Storage key for the messages waiting to be sent in a namespace. */
+export function outboxKey(namespace = 'default'): string {
+  return `outbox:${namespace}`;
+}
+
+/**
+ * Serialize a conversation, dropping the oldest messages until it fits
+ * `maxMessages` and `maxSize`. Returns null when nothing fits.
+ */
+export function serializeConversation(
+  conversationId: string,
+  messages: PillarChatMessage[],
+  maxMessages = DEFAULT_MAX_MESSAGES,
+  maxSize = DEFAULT_MAX_SIZE,
+): string | null {
+  const kept = messages.slice(-maxMessages);
+  const data: PersistedConversation = {
+    version: PERSISTENCE_VERSION,
+    conversationId,
+    savedAt: new Date().toISOString(),
+    messages: [],
+  };
+  // Ends with `"messages":[]}`; the kept messages are spliced in before `]}`
+  const envelope = JSON.stringify(data);
+  const parts = kept.map((msg) => JSON.stringify(msg));
+
+  // Walk back from the newest message, keeping as many as fit
+  let size = envelope.length;
+  let start = parts.length;
+  while (start > 0) {
+    const next = size + parts[start - 1].length + (start < parts.length ? 1 : 0);
+    if (next > maxSize) break;
+    size = next;
+    start--;
+  }
+
+  if (start === parts.length) return null;
+  return `${envelope.slice(0, -2)}${parts.slice(start).join(',')}]}`;
+}
+
+/**
+ * Parse a stored conversation. Returns null for corrupt data or data
+ * written by an incompatible version.
+ *
+ * Tool calls that were still running or awaiting confirmation when the
+ * conversation was saved cannot be resumed, so they come back as cancelled.
+ * Messages that were still being sent come back as failed.
+ */
+export function deserializeConversation(raw: string | null): PersistedConversation | null {
+  if (!raw) return null;
+
+  try {
+    const data = JSON.parse(raw) as Partial<PersistedConversation>;
+    if (data.version !== PERSISTENCE_VERSION) {
+      console.warn(
+        `[Pillar] Ignoring persisted conversation with unsupported version ${String(data.version)}.`,
+      );
+      return null;
+    }
+    if (typeof data.conversationId !== 'string' || !Array.isArray(data.messages)) {
+      return null;
+    }
+    return {
+      ...(data as PersistedConversation),
+      messages: data.messages.map((msg) => {
+        const restored =
+          msg.status === 'sending' ? { ...msg, status: 'failed' as const } : msg;
+        return restored.toolCalls?.some(
+          (t) => t.state === 'running' || t.state === 'awaiting-confirmation',
+        )
+          ? {
+              ...restored,
+              toolCalls: restored.toolCalls.map((t) =>
+                t.state === 'running' || t.state === 'awaiting-confirmation'
+                  ? { ...t, state: 'cancelled' as const }
+                  : t,
+              ),
+            }
+          : restored;
+      }),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** Serialize the messages waiting to be sent. */
+export function serializeOutbox(messages: PillarChatMessage[]): string {
+  return JSON.stringify({ version: PERSISTENCE_VERSION, messages });
+}
+
+/** Parse a stored outbox. Returns an empty outbox for corrupt or incompatible data. */
+export function deserializeOutbox(raw: string | null): PillarChatMessage[] {
+  if (!raw) return [];
+
+  try {
+    const data = JSON.parse(raw) as { version?: number; messages?: PillarChatMessage[] };
+    if (data.version !== PERSISTENCE_VERSION || !Array.isArray(data.messages)) return [];
+    return data.messages.map((msg) => ({ ...msg, status: 'pending' as const }));
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Types for usePillarChat conversation persistence.
+ */
+
+import type { PillarChatMessage } from '../hooks/usePillarChat';
+
+/**
+ * Pluggable storage backend. Stores opaque strings by key.
+ * Methods may be sync or async.
+ */
+export interface PillarChatStorageAdapter {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem: (key: string) => void | Promise<void>;
+}
+
+export interface PillarChatPersistenceOptions {
+  /** Where conversations are stored, e.g. `createLocalStorageAdapter()`. */
+  adapter: PillarChatStorageAdapter;
+  /**
+   * Separates independent chats on the same page (default: "default").
+   * The last active conversation is remembered per namespace.
+   */
+  namespace?: string;
+  /** Keep at most this many messages per conversation (default: 200). */
+  maxMessages?: number;
+  /**
+   * Maximum size of a stored conversation, in characters of JSON
+   * (default: 500000). Oldest messages are dropped to fit.
+   */
+  maxSize?: number;
+}
+
+/** On-disk shape of a persisted conversation. */
+export interface PersistedConversation {
+  version: number;
+  conversationId: string;
+  savedAt: string;
+  messages: PillarChatMessage[];
+}
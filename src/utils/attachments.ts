@@ -0,0 +1,175 @@
+/**
+ * Message attachments
+ *
+ * Prepares images and documents for `usePillarChat` and maps them to the
+ * fields `api.chat()` sends. Images are uploaded through the image
+ * endpoint. Documents are read in the browser and their text is sent to
+ * the agent as user context, since @pillar-ai/sdk has no document upload.
+ */
+
+import { getApiClient, type ChatImage, type UserContextItem } from '@pillar-ai/sdk';
+import type { PillarChatFile, PillarChatImage } from '../hooks/usePillarChat';
+
+/**
+ * Longest document text sent to the agent, in characters. Longer
+ * documents are cut off.
+ */
+export const MAX_DOCUMENT_LENGTH = 100_000;
+
+/**
+ * Reads the text of a document the browser can't read itself, e.g. a PDF.
+ */
+export type PillarTextExtractor = (file: File) => Promise<string>;
+
+/**
+ * MIME types by extension, for files the browser reports without a type
+ * (common for CSV and Markdown on Windows and Linux).
+ */
+const MEDIA_TYPES_BY_EXTENSION: Record<string, string> = {
+  pdf: 'application/pdf',
+  csv: 'text/csv',
+  tsv: 'text/tab-separated-values',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  json: 'application/json',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+/** The file's MIME type, falling back to its extension. */
+export function mediaTypeOf(file: File): string {
+  if (file.type) return file.type;
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return MEDIA_TYPES_BY_EXTENSION[extension] ?? 'application/octet-stream';
+}
+
+export function isImageMediaType(mediaType: string | undefined): boolean {
+  return Boolean(mediaType?.startsWith('image/'));
+}
+
+/** Whether the browser can read the type as text. */
+export function isTextMediaType(mediaType: string | undefined): boolean {
+  return Boolean(mediaType?.startsWith('text/') || mediaType === 'application/json');
+}
+
+function capText(text: string): string {
+  return text.length > MAX_DOCUMENT_LENGTH ? `${text.slice(0, MAX_DOCUMENT_LENGTH)}…` : text;
+}
+
+/**
+ * Prepare an image or document for a message. Images are uploaded;
+ * text documents are read in the browser, and other documents (such as
+ * PDFs) through `extractText`.
+ */
+export async function prepareChatFile(
+  file: File,
+  extractText?: PillarTextExtractor,
+): Promise<PillarChatFile> {
+  const mediaType = mediaTypeOf(file);
+  const described = { name: file.name, mediaType, size: file.size };
+
+  if (isImageMediaType(mediaType)) {
+    const api = getApiClient();
+    if (!api) throw new Error('Pillar SDK is not initialized');
+    const { url, path } = await api.uploadImage(file);
+    return { url, path, ...described };
+  }
+
+  let text: string;
+  if (isTextMediaType(mediaType)) {
+    text = await file.text();
+  } else if (extractText) {
+    text = await extractText(file);
+  } else {
+    throw new Error(`Reading ${mediaType} files needs the extractText option of usePillarChat`);
+  }
+
+  return { ...described, text: capText(text) };
+}
+
+/**
+ * Split attachments into the images and documents of a message. Files
+ * with an image type and a URL are treated as images.
+ */
+export function splitAttachments(
+  images: PillarChatImage[] | undefined,
+  files: PillarChatFile[] | undefined,
+): { images?: PillarChatImage[]; files?: PillarChatFile[] } {
+  const allImages: PillarChatImage[] = [...(images ?? [])];
+  const documents: PillarChatFile[] = [];
+
+  for (const file of files ?? []) {
+    if (file.url && isImageMediaType(file.mediaType)) {
+      allImages.push({ url: file.url, path: file.path, mediaType: file.mediaType });
+    } else {
+      documents.push(file);
+    }
+  }
+
+  return {
+    ...(allImages.length ? { images: allImages } : {}),
+    ...(documents.length ? { files: documents } : {}),
+  };
+}
+
+/** Images as `api.chat()` expects them (without the client-side `mediaType`). */
+export function chatImages(images: PillarChatImage[] | undefined): ChatImage[] | undefined {
+  return images?.map(({ url, detail, path }) => ({
+    url,
+    ...(detail ? { detail } : {}),
+    ...(path ? { path } : {}),
+  }));
+}
+
+/**
+ * User context items carrying the text of attached documents, so the
+ * agent can read them. Documents without text are skipped.
+ */
+export function documentContextItems(files: PillarChatFile[]): UserContextItem[] {
+  return files
+    .filter((file) => file.text !== undefined)
+    .map((file, i) => ({
+      id: `file:${i}:${file.name}`,
+      type: 'attached_file',
+      name: file.name,
+      media_type: file.mediaType,
+      content: file.text,
+    }));
+}
+
+/**
+ * A URL for a file part: the file's own URL, or a `data:` URL of its text
+ * for documents read in the browser.
+ */
+export function fileUrl(file: PillarChatFile): string {
+  if (file.url) return file.url;
+  const type = isTextMediaType(file.mediaType) ? file.mediaType : 'text/plain';
+  return `data:${type};charset=utf-8,${encodeURIComponent(file.text ?? '')}`;
+}
+
+/**
+ * The text in a `data:` URL with a text type, or undefined for other URLs.
+ */
+function dataUrlText(url: string): string | undefined {
+  const match = /^data:([^;,]*)((?:;[^;,]*)*),(.*)$/s.exec(url);
+  if (!match || !(isTextMediaType(match[1]) || /;charset=/i.test(match[2]))) return undefined;
+  try {
+    if (!/;base64/i.test(match[2])) return decodeURIComponent(match[3]);
+    const bytes = Uint8Array.from(atob(match[3]), (c) => c.charCodeAt(0));
+    return new TextDecoder().decode(bytes);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * A document from a file part. Text in a `data:` URL becomes the
+ * document's `text`, so it is sent to the agent again.
+ */
+export function fileFromUrl(url: string, name: string, mediaType: string): PillarChatFile {
+  const text = dataUrlText(url);
+  return text !== undefined ? { name, mediaType, text } : { url, name, mediaType };
+}
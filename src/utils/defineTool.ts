@@ -1,8 +1,13 @@
 /**
  * defineTool - Type-safe tool definition helper
  *
- * A simple identity function that provides type inference for tool schemas.
- * Use this when defining tools outside of components to get proper TypeScript support.
+ * Provides type inference for tool schemas. Use this when defining tools
+ * outside of components to get proper TypeScript support.
+ *
+ * `inputSchema` may be hand-written JSON Schema or a Standard Schema
+ * (Zod, Valibot, ArkType, ...). With a Standard Schema, the `execute` input
+ * type is inferred from it, the schema is converted to JSON Schema for the
+ * agent, and the AI's arguments are validated before `execute` runs.
  *
  * @example
  * ```ts
@@ -24,16 +29,63 @@
  *   },
  * });
  * ```
+ *
+ * @example With Zod
+ * ```ts
+ * import { z } from 'zod';
+ *
+ * export const searchTool = defineTool({
+ *   name: 'search_products',
+ *   description: 'Search for products by query',
+ *   inputSchema: z.object({ query: z.string().describe('Search query') }),
+ *   execute: async ({ query }) => ({ products: await searchProducts(query) }),
+ * });
+ * ```
  */
 
-import type { ToolSchema } from "@pillar-ai/sdk";
+import type { ExecutableToolSchema, ToolSchema } from "@pillar-ai/sdk";
+import {
+  isStandardSchema,
+  toJSONInputSchema,
+  withInputValidation,
+  type StandardSchemaV1,
+} from "./standardSchema";
 
 /**
- * Identity function for defining tools with full type inference.
- * Returns the schema unchanged - exists purely for TypeScript support.
+ * Executable tool schema whose `inputSchema` is a Standard Schema.
  */
+export interface StandardToolSchema<TInput = Record<string, unknown>>
+  extends Omit<ExecutableToolSchema<TInput>, "inputSchema"> {
+  inputSchema: StandardSchemaV1<unknown, TInput>;
+}
+
+/**
+ * Define a tool with full type inference.
+ *
+ * JSON Schema tools are returned unchanged. Standard Schema tools are
+ * returned with a JSON Schema `inputSchema` and a validating `execute`.
+ */
+export function defineTool<TInput = Record<string, unknown>>(
+  schema: StandardToolSchema<TInput>
+): ToolSchema<TInput>;
 export function defineTool<TInput = Record<string, unknown>>(
   schema: ToolSchema<TInput>
+): ToolSchema<TInput>;
+export function defineTool<TInput = Record<string, unknown>>(
+  schema: ToolSchema<TInput> | StandardToolSchema<TInput>
 ): ToolSchema<TInput> {
-  return schema;
+  if (!isStandardSchema(schema.inputSchema)) {
+    return schema as ToolSchema<TInput>;
+  }
+
+  const standardSchema = schema as StandardToolSchema<TInput>;
+  return {
+    ...standardSchema,
+    inputSchema: toJSONInputSchema(standardSchema.inputSchema, schema.name),
+    execute: withInputValidation(
+      schema.name,
+      standardSchema.inputSchema,
+      standardSchema.execute
+    ),
+  } as ToolSchema<TInput>;
 }
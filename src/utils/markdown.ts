@@ -0,0 +1,675 @@
+/**
+ * Streaming-safe markdown parser
+ *
+ * Parses the markdown subset agents write (GFM blocks, emphasis, links,
+ * code, tables and citation markers) into a small node tree that
+ * `<PillarMarkdown>` renders as React elements. Raw HTML is never
+ * interpreted, and link and image URLs are restricted to safe protocols,
+ * so the output needs no separate sanitizing step.
+ *
+ * With `streaming: true` the source is treated as a prefix of the final
+ * answer: unclosed fences render as code so far, unclosed emphasis is
+ * closed at the end, and half-written links, citations and table rows are
+ * held back until they are complete.
+ */
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "strong"; children: MarkdownInline[] }
+  | { type: "em"; children: MarkdownInline[] }
+  | { type: "del"; children: MarkdownInline[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; children: MarkdownInline[] }
+  | { type: "image"; src: string; alt: string }
+  /** `[1]` or `[^1]`; `index` is 1-based, matching the cited source. */
+  | { type: "citation"; index: number }
+  | { type: "break" };
+
+export type MarkdownAlign = "left" | "center" | "right" | null;
+
+export type MarkdownBlock =
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "heading"; level: number; children: MarkdownInline[] }
+  /** `complete` is false while a fence is still open during streaming. */
+  | { type: "code"; language?: string; text: string; complete: boolean }
+  | { type: "list"; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: "blockquote"; children: MarkdownBlock[] }
+  | {
+      type: "table";
+      align: MarkdownAlign[];
+      header: MarkdownInline[][];
+      rows: MarkdownInline[][][];
+    }
+  | { type: "rule" };
+
+export interface ParseMarkdownOptions {
+  /** The source is still being streamed (default: false). */
+  streaming?: boolean;
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])(\s+|$)/;
+const BLOCKQUOTE = /^ {0,3}>\s?/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!|~<>]/;
+
+/** Base for resolving relative URLs; only the resulting protocol is used. */
+const URL_BASE = "https://invalid.base";
+
+/**
+ * Check a link or image URL. Only http(s), mailto, tel and relative URLs
+ * are kept; anything else (`javascript:`, `data:`, …) is dropped.
+ *
+ * Browsers strip control characters and tabs/newlines before parsing a
+ * URL, so they are removed first and the scheme is read from the parsed
+ * URL rather than matched on the raw text.
+ */
+export function sanitizeUrl(url: string, kind: "link" | "image" = "link"): string | null {
+  // eslint-disable-next-line no-control-regex
+  const cleaned = url.replace(/[\u0000-\u001F\u007F]/g, "").trim();
+  if (!cleaned || /\s/.test(cleaned)) return null;
+
+  let protocol: string;
+  try {
+    protocol = new URL(cleaned, URL_BASE).protocol;
+  } catch {
+    return null;
+  }
+
+  const allowed =
+    kind === "image" ? ["http:", "https:"] : ["http:", "https:", "mailto:", "tel:"];
+  return allowed.includes(protocol) ? cleaned : null;
+}
+
+// ============================================================================
+// Inline
+// ============================================================================
+
+interface InlineState {
+  /** Close unterminated markers at the end instead of printing them. */
+  openEnded: boolean;
+}
+
+function pushText(nodes: MarkdownInline[], text: string): void {
+  if (!text) return;
+  const last = nodes[nodes.length - 1];
+  if (last?.type === "text") {
+    last.text += text;
+  } else {
+    nodes.push({ type: "text", text });
+  }
+}
+
+/** Closing `]` for each `[` in `text`, keyed by the position of the `[`. */
+function matchBrackets(text: string): Map<number, number> {
+  const ends = new Map<number, number>();
+  const open: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\\") {
+      i++;
+    } else if (char === "[") {
+      open.push(i);
+    } else if (char === "]" && open.length > 0) {
+      ends.set(open.pop()!, i);
+    }
+  }
+  return ends;
+}
+
+/** Find the closing `)` of a link destination that starts at `from`. */
+function findParenEnd(text: string, from: number): number {
+  let depth = 0;
+  for (let i = from; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\\") {
+      i++;
+    } else if (char === "(") {
+      depth++;
+    } else if (char === ")") {
+      if (depth === 0) return i;
+      depth--;
+    } else if (char === "\n") {
+      return -1;
+    }
+  }
+  return -1;
+}
+
+/** Strip an optional `"title"` after the URL in a link destination. */
+function linkDestination(raw: string): string {
+  const match = /^\s*<?([^\s>]*)>?(?:\s+["'(].*)?\s*$/.exec(raw);
+  return match ? match[1] : raw.trim();
+}
+
+/**
+ * Positions where an emphasis delimiter can close, in order. `_` only
+ * counts at word boundaries so snake_case identifiers stay intact.
+ */
+function findClosers(text: string, delimiter: string): number[] {
+  const closers: number[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const index = text.indexOf(delimiter, i);
+    if (index === -1) break;
+    if (text[index - 1] === "\\") {
+      i = index + 1;
+      continue;
+    }
+    // The closer can't follow whitespace, and a single `*` must not be
+    // the first half of a `**`
+    const before = text[index - 1];
+    const after = text[index + delimiter.length];
+    const isWhitespaceBefore = before === undefined || /\s/.test(before);
+    const isDoubled = delimiter.length === 1 && after === delimiter;
+    const isIntraword = delimiter[0] === "_" && after !== undefined && /\w/.test(after);
+    if (!isWhitespaceBefore && !isDoubled && !isIntraword) {
+      closers.push(index);
+    }
+    i = index + (isDoubled ? 2 : 1);
+  }
+  return closers;
+}
+
+/** The first position in the sorted `positions` after `from`, or -1. */
+function firstAfter(positions: number[], from: number): number {
+  let low = 0;
+  let high = positions.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (positions[mid] > from) high = mid;
+    else low = mid + 1;
+  }
+  return low < positions.length ? positions[low] : -1;
+}
+
+/**
+ * Delimiter and bracket positions of one piece of inline text, computed
+ * on first use. Looking closers up here instead of rescanning the rest of
+ * the text for every unmatched opener keeps parsing linear, which matters
+ * because streamed messages are re-parsed on every token.
+ */
+interface InlineIndex {
+  closers: (delimiter: string) => number[];
+  bracketEnd: (open: number) => number;
+  /** Position of the next run of exactly `ticks` backticks at or after `from`. */
+  codeSpanEnd: (ticks: string, from: number) => number;
+}
+
+function createInlineIndex(text: string): InlineIndex {
+  const closers = new Map<string, number[]>();
+  let brackets: Map<number, number> | null = null;
+  // Smallest start, per run length, from which no closing run exists
+  const codeMisses = new Map<number, number>();
+
+  return {
+    closers: (delimiter) => {
+      let positions = closers.get(delimiter);
+      if (!positions) {
+        positions = findClosers(text, delimiter);
+        closers.set(delimiter, positions);
+      }
+      return positions;
+    },
+    bracketEnd: (open) => {
+      brackets ??= matchBrackets(text);
+      return brackets.get(open) ?? -1;
+    },
+    codeSpanEnd: (ticks, from) => {
+      const miss = codeMisses.get(ticks.length);
+      if (miss !== undefined && from >= miss) return -1;
+      const end = text.indexOf(ticks, from);
+      if (end === -1) codeMisses.set(ticks.length, from);
+      return end;
+    },
+  };
+}
+
+/** Match a sticky pattern at `index` without slicing the text. */
+function matchAt(pattern: RegExp, text: string, index: number): RegExpExecArray | null {
+  pattern.lastIndex = index;
+  return pattern.exec(text);
+}
+
+const HARD_BREAK = / {2,}\n/y;
+const HTML_BREAK = /<br\s*\/?>/iy;
+const BACKTICKS = /`+/y;
+const AUTOLINK = /<((?:https?:\/\/|mailto:)[^\s<>]+)>/iy;
+const BARE_URL = /(?:https?:\/\/|www\.)[^\s<]+[^\s<.,:;"')\]!?*_~]/iy;
+const DELIMITER_RUN = /\*+|_+|~+/y;
+
+/** Deeper emphasis and links are shown as text, so pathological input can't exhaust the stack. */
+const MAX_INLINE_DEPTH = 32;
+
+function parseInline(text: string, state: InlineState, depth = 0): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  const index = createInlineIndex(text);
+  const canNest = depth < MAX_INLINE_DEPTH;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    // Backslash escapes
+    if (char === "\\" && i + 1 < text.length) {
+      if (text[i + 1] === "\n") {
+        nodes.push({ type: "break" });
+        i += 2;
+        continue;
+      }
+      if (ESCAPABLE.test(text[i + 1])) {
+        pushText(nodes, text[i + 1]);
+        i += 2;
+        continue;
+      }
+    }
+
+    // Hard line breaks: two trailing spaces, or an HTML <br>
+    const hardBreak = char === " " ? matchAt(HARD_BREAK, text, i) : null;
+    if (hardBreak) {
+      nodes.push({ type: "break" });
+      i += hardBreak[0].length;
+      continue;
+    }
+    const br = char === "<" ? matchAt(HTML_BREAK, text, i) : null;
+    if (br) {
+      nodes.push({ type: "break" });
+      i += br[0].length;
+      continue;
+    }
+
+    // Code spans
+    if (char === "`") {
+      const ticks = matchAt(BACKTICKS, text, i)![0];
+      const end = index.codeSpanEnd(ticks, i + ticks.length);
+      if (end !== -1) {
+        const code = text.slice(i + ticks.length, end);
+        nodes.push({ type: "code", text: /^ .* $/.test(code) ? code.slice(1, -1) : code });
+        i = end + ticks.length;
+        continue;
+      }
+      if (state.openEnded) {
+        nodes.push({ type: "code", text: text.slice(i + ticks.length) });
+        break;
+      }
+      pushText(nodes, ticks);
+      i += ticks.length;
+      continue;
+    }
+
+    // Images, links and citations
+    if (canNest && (char === "[" || (char === "!" && text[i + 1] === "["))) {
+      const isImage = char === "!";
+      const open = i + (isImage ? 2 : 1);
+      const close = index.bracketEnd(open - 1);
+
+      if (close === -1) {
+        if (state.openEnded) {
+          // Half-written link or citation: show the label text only
+          const label = text.slice(open);
+          if (!isImage && !/^\^?\d*$/.test(label)) {
+            nodes.push(...parseInline(label, state, depth + 1));
+          }
+          break;
+        }
+      } else {
+        const label = text.slice(open, close);
+        const citation = /^\^?(\d{1,3})$/.exec(label);
+
+        if (text[close + 1] === "(") {
+          const destEnd = findParenEnd(text, close + 2);
+          if (destEnd === -1 && state.openEnded) {
+            // URL still streaming
+            if (!isImage) nodes.push(...parseInline(label, state, depth + 1));
+            break;
+          }
+          if (destEnd !== -1) {
+            const url = sanitizeUrl(
+              linkDestination(text.slice(close + 2, destEnd)),
+              isImage ? "image" : "link"
+            );
+            if (isImage) {
+              if (url) nodes.push({ type: "image", src: url, alt: label });
+            } else if (url) {
+              nodes.push({ type: "link", href: url, children: parseInline(label, state, depth + 1) });
+            } else {
+              nodes.push(...parseInline(label, state, depth + 1));
+            }
+            i = destEnd + 1;
+            continue;
+          }
+        } else if (!isImage && citation) {
+          nodes.push({ type: "citation", index: Number(citation[1]) });
+          i = close + 1;
+          continue;
+        }
+      }
+    }
+
+    // Autolinks: <https://…> and bare URLs
+    const autolink = char === "<" ? matchAt(AUTOLINK, text, i) : null;
+    if (autolink) {
+      nodes.push({
+        type: "link",
+        href: autolink[1],
+        children: [{ type: "text", text: autolink[1].replace(/^mailto:/i, "") }],
+      });
+      i += autolink[0].length;
+      continue;
+    }
+    const previous = text[i - 1];
+    if ((char === "h" || char === "w") && (previous === undefined || /[\s(]/.test(previous))) {
+      const bare = matchAt(BARE_URL, text, i);
+      if (bare) {
+        const href = bare[0].startsWith("www.") ? `https://${bare[0]}` : bare[0];
+        nodes.push({ type: "link", href, children: [{ type: "text", text: bare[0] }] });
+        i += bare[0].length;
+        continue;
+      }
+    }
+
+    // Emphasis and strikethrough
+    if (char === "*" || char === "_" || char === "~") {
+      const run = matchAt(DELIMITER_RUN, text, i)![0];
+      const delimiter =
+        char === "~" ? (run.length >= 2 ? "~~" : "") : run.length >= 2 ? run.slice(0, 2) : run;
+      const next = text[i + delimiter.length];
+      const canOpen =
+        canNest &&
+        delimiter !== "" &&
+        next !== undefined &&
+        !/\s/.test(next) &&
+        !(char === "_" && previous !== undefined && /\w/.test(previous));
+
+      if (canOpen) {
+        const start = i + delimiter.length;
+        const end = firstAfter(index.closers(delimiter), start);
+        const type = char === "~" ? "del" : delimiter.length === 2 ? "strong" : "em";
+
+        if (end !== -1) {
+          nodes.push({ type, children: parseInline(text.slice(start, end), state, depth + 1) });
+          i = end + delimiter.length;
+          continue;
+        }
+        if (state.openEnded) {
+          nodes.push({ type, children: parseInline(text.slice(start), state, depth + 1) });
+          break;
+        }
+      } else if (state.openEnded && i + run.length === text.length) {
+        // A trailing marker that may open emphasis once the next token arrives
+        break;
+      }
+
+      pushText(nodes, delimiter || run);
+      i += (delimiter || run).length;
+      continue;
+    }
+
+    pushText(nodes, char);
+    i++;
+  }
+
+  return nodes;
+}
+
+// ============================================================================
+// Blocks
+// ============================================================================
+
+interface BlockState {
+  streaming: boolean;
+}
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith("|")) row = row.slice(1);
+  if (row.endsWith("|") && !row.endsWith("\\|")) row = row.slice(0, -1);
+
+  const cells: string[] = [];
+  let cell = "";
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === "\\" && row[i + 1] === "|") {
+      cell += "|";
+      i++;
+    } else if (row[i] === "|") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += row[i];
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function tableAlign(separator: string): MarkdownAlign[] {
+  return splitTableRow(separator).map((cell) => {
+    const left = cell.startsWith(":");
+    const right = cell.endsWith(":");
+    if (left && right) return "center";
+    if (right) return "right";
+    if (left) return "left";
+    return null;
+  });
+}
+
+function isTableRow(line: string): boolean {
+  return line.includes("|") && line.trim() !== "";
+}
+
+function startsBlock(line: string): boolean {
+  return (
+    FENCE.test(line) ||
+    HEADING.test(line) ||
+    RULE.test(line) ||
+    BLOCKQUOTE.test(line) ||
+    LIST_ITEM.test(line)
+  );
+}
+
+function parseLines(lines: string[], state: BlockState): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  const inline = (text: string, isLast: boolean) =>
+    parseInline(text, { openEnded: state.streaming && isLast });
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim() === "") {
+      i++;
+      continue;
+    }
+
+    // Fenced code
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      const indent = /^ */.exec(line)![0].length;
+      const body: string[] = [];
+      let complete = false;
+      i++;
+      while (i < lines.length) {
+        const closing = new RegExp(`^ {0,3}${marker[0]}{${marker.length},}\\s*$`);
+        if (closing.test(lines[i])) {
+          complete = true;
+          i++;
+          break;
+        }
+        body.push(lines[i].replace(new RegExp(`^ {0,${indent}}`), ""));
+        i++;
+      }
+      blocks.push({
+        type: "code",
+        language: fence[2] || undefined,
+        text: body.join("\n"),
+        complete: complete || !state.streaming,
+      });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({
+        type: "heading",
+        level: heading[1].length,
+        children: inline(heading[2] ?? "", i === lines.length - 1),
+      });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: "rule" });
+      i++;
+      continue;
+    }
+
+    // Blockquotes
+    if (BLOCKQUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trim() !== "") {
+        if (!BLOCKQUOTE.test(lines[i]) && startsBlock(lines[i])) break;
+        quoted.push(lines[i].replace(BLOCKQUOTE, ""));
+        i++;
+      }
+      blocks.push({
+        type: "blockquote",
+        children: parseLines(quoted, {
+          streaming: state.streaming && i === lines.length,
+        }),
+      });
+      continue;
+    }
+
+    // Lists
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      const ordered = /\d/.test(item[2]);
+      const items: MarkdownBlock[][] = [];
+      const start = ordered ? parseInt(item[2], 10) : 1;
+
+      while (i < lines.length) {
+        const current = LIST_ITEM.exec(lines[i]);
+        if (!current || /\d/.test(current[2]) !== ordered) break;
+
+        const contentIndent = current[0].length;
+        const itemLines = [lines[i].slice(contentIndent)];
+        i++;
+
+        // Continuation lines: indented, or lazy paragraph continuation
+        while (i < lines.length) {
+          const next = lines[i];
+          const indent = /^ */.exec(next)![0].length;
+          if (next.trim() === "") {
+            const following = lines[i + 1];
+            if (following !== undefined && /^ */.exec(following)![0].length >= 2) {
+              itemLines.push("");
+              i++;
+              continue;
+            }
+            break;
+          }
+          if (indent >= Math.min(contentIndent, 2)) {
+            itemLines.push(next.slice(Math.min(indent, contentIndent)));
+            i++;
+            continue;
+          }
+          if (!startsBlock(next) && itemLines[itemLines.length - 1].trim() !== "") {
+            itemLines.push(next);
+            i++;
+            continue;
+          }
+          break;
+        }
+
+        items.push(parseLines(itemLines, { streaming: state.streaming && i === lines.length }));
+
+        // A blank line between items keeps the list going
+        if (lines[i]?.trim() === "" && LIST_ITEM.test(lines[i + 1] ?? "")) {
+          i++;
+        }
+      }
+
+      blocks.push({ type: "list", ordered, start, items });
+      continue;
+    }
+
+    // Tables: a header row followed by a separator row
+    if (isTableRow(line)) {
+      const separator = lines[i + 1];
+      const separatorDone = separator !== undefined && (i + 1 < lines.length - 1 || !state.streaming);
+
+      if (separator !== undefined && TABLE_SEPARATOR.test(separator)) {
+        if (!separatorDone) {
+          // Hold the table back until the separator row is complete
+          break;
+        }
+        const header = splitTableRow(line);
+        const align = tableAlign(separator);
+        const rows: MarkdownInline[][][] = [];
+        i += 2;
+        while (i < lines.length && isTableRow(lines[i])) {
+          // The last row is still streaming; show it once it ends
+          if (state.streaming && i === lines.length - 1) {
+            i++;
+            break;
+          }
+          const cells = splitTableRow(lines[i]);
+          rows.push(
+            header.map((_, column) => parseInline(cells[column] ?? "", { openEnded: false }))
+          );
+          i++;
+        }
+        blocks.push({
+          type: "table",
+          align,
+          header: header.map((cell) => parseInline(cell, { openEnded: false })),
+          rows,
+        });
+        continue;
+      }
+
+      if (
+        state.streaming &&
+        line.trimStart().startsWith("|") &&
+        (i === lines.length - 1 || (i === lines.length - 2 && /^\s*\|?[\s:|-]*$/.test(separator)))
+      ) {
+        // Probably a table header whose separator hasn't arrived yet
+        break;
+      }
+    }
+
+    // Paragraph
+    const paragraph: string[] = [line.trimStart()];
+    i++;
+    while (i < lines.length && lines[i].trim() !== "" && !startsBlock(lines[i])) {
+      if (isTableRow(lines[i]) && TABLE_SEPARATOR.test(lines[i + 1] ?? "")) break;
+      paragraph.push(lines[i].trimStart());
+      i++;
+    }
+    blocks.push({
+      type: "paragraph",
+      children: inline(paragraph.join("\n").replace(/\s+$/, ""), i === lines.length),
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * Parse markdown into blocks for `<PillarMarkdown>`.
+ *
+ * @example
+ * ```ts
+ * parseMarkdown('**Note:** see [1]', { streaming: true });
+ * // [{ type: 'paragraph', children: [{ type: 'strong', … }, { type: 'citation', index: 1 }] }]
+ * ```
+ */
+export function parseMarkdown(source: string, options: ParseMarkdownOptions = {}): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, "\n").replace(/\t/g, "    ").split("\n");
+  return parseLines(lines, { streaming: options.streaming ?? false });
+}
@@ -0,0 +1,130 @@
+/**
+ * Readable context store
+ *
+ * Holds the component-scoped context registered with `usePillarReadable`
+ * and turns it into size-limited context items that are sent with every
+ * chat message (panel and `usePillarChat`).
+ */
+
+import type { UserContextItem } from "@pillar-ai/sdk";
+
+/** Default cap for a single readable, in characters of serialized JSON. */
+export const DEFAULT_READABLE_MAX_SIZE = 4_000;
+
+/** Cap for all readables combined, in characters of serialized JSON. */
+export const MAX_TOTAL_READABLE_SIZE = 16_000;
+
+/** A readable as it will be sent to the agent. */
+export interface PillarReadableEntry {
+  key: string;
+  description: string;
+  /** The value, or a truncated JSON string when it exceeded `maxSize`. */
+  value: unknown;
+  /** Size of the serialized value that will be sent, in characters. */
+  size: number;
+  /** True when the value was cut down to fit `maxSize`. */
+  truncated: boolean;
+  /** True when the entry was left out because the total cap was reached. */
+  omitted: boolean;
+}
+
+export interface ReadableInput {
+  key: string;
+  description: string;
+  value: unknown;
+  maxSize?: number;
+}
+
+export interface ReadableStore {
+  set: (input: ReadableInput) => () => void;
+  subscribe: (listener: () => void) => () => void;
+  /** Snapshot of what will be sent. Stable between changes. */
+  getEntries: () => PillarReadableEntry[];
+  /** Entries that fit the size limits, shaped as chat `userContext` items. */
+  getContextItems: () => UserContextItem[];
+}
+
+function serialize(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? "null";
+  } catch {
+    return JSON.stringify(String(value));
+  }
+}
+
+function buildEntries(inputs: ReadableInput[]): PillarReadableEntry[] {
+  let total = 0;
+
+  return inputs.map((input) => {
+    const maxSize = input.maxSize ?? DEFAULT_READABLE_MAX_SIZE;
+    const serialized = serialize(input.value);
+    const truncated = serialized.length > maxSize;
+    const value = truncated ? `${serialized.slice(0, maxSize)}…` : input.value;
+    const size = truncated ? maxSize : serialized.length;
+    const omitted = total + size > MAX_TOTAL_READABLE_SIZE;
+
+    if (!omitted) {
+      total += size;
+    }
+
+    return {
+      key: input.key,
+      description: input.description,
+      value,
+      size,
+      truncated,
+      omitted,
+    };
+  });
+}
+
+export function createReadableStore(): ReadableStore {
+  const inputs = new Map<string, ReadableInput>();
+  const listeners = new Set<() => void>();
+  let entries: PillarReadableEntry[] = [];
+
+  const emit = () => {
+    const wasOmitted = new Set(
+      entries.filter((entry) => entry.omitted).map((entry) => entry.key)
+    );
+    entries = buildEntries(Array.from(inputs.values()));
+    entries.forEach((entry) => {
+      if (entry.omitted && !wasOmitted.has(entry.key)) {
+        console.warn(
+          `[Pillar] Readable "${entry.key}" is not sent: total readable context exceeds ${MAX_TOTAL_READABLE_SIZE} characters.`
+        );
+      }
+    });
+    listeners.forEach((listener) => listener());
+  };
+
+  return {
+    set: (input) => {
+      inputs.set(input.key, input);
+      emit();
+      return () => {
+        if (inputs.get(input.key) === input) {
+          inputs.delete(input.key);
+          emit();
+        }
+      };
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getEntries: () => entries,
+    getContextItems: () =>
+      entries
+        .filter((entry) => !entry.omitted)
+        .map((entry) => ({
+          id: `readable:${entry.key}`,
+          type: "readable",
+          key: entry.key,
+          description: entry.description,
+          value: entry.value,
+        })),
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Tool handler resolution for chat adapters
+ *
+ * Adapters that run Pillar chats outside the panel and `usePillarChat`
+ * (AI SDK transport, AG-UI agent) resolve tool calls the same way:
+ * the React schema from `usePillarTool` when available, so `execute`
+ * receives an execution context, otherwise the handler registered on the
+ * core SDK.
+ */
+
+import { getPillarInstance } from "@pillar-ai/sdk";
+import type {
+  ReactExecutableToolSchema,
+  ReactToolSchema,
+  ToolExecutionContext,
+} from "../hooks/usePillarTool";
+import { withInputValidation } from "./standardSchema";
+
+/** Looks up the React schema registered for a tool name. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type ToolSchemaLookup = (toolName: string) => ReactToolSchema<any> | undefined;
+
+/**
+ * Whether a tool call must be approved by the user before it runs.
+ */
+export function requiresConfirmation(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  schema: ReactToolSchema<any> | undefined
+): boolean {
+  const execSchema = schema as ReactExecutableToolSchema | undefined;
+  return Boolean(execSchema?.needsConfirmation || execSchema?.renderConfirmation);
+}
+
+/**
+ * Resolve the function that runs a tool call, or `undefined` when no
+ * handler is registered for it.
+ */
+export function resolveToolHandler(
+  toolName: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  schema: ReactToolSchema<any> | undefined,
+  context: ToolExecutionContext
+): ((input: Record<string, unknown>) => unknown) | undefined {
+  const execSchema = schema as ReactExecutableToolSchema | undefined;
+  if (execSchema?.execute) {
+    const execute = withInputValidation(
+      toolName,
+      execSchema.inputSchema,
+      execSchema.execute
+    );
+    return (input) => execute(input, context);
+  }
+  return getPillarInstance()?.getHandler(toolName);
+}
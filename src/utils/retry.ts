@@ -0,0 +1,140 @@
+/**
+ * Retries for usePillarChat
+ *
+ * Sends a message again when the request fails before the agent starts
+ * answering, and resumes the answer when the stream drops mid-way.
+ */
+
+export const DEFAULT_RETRY = { attempts: 3, initialDelay: 500, maxDelay: 8000 };
+
+/** Retry settings with the defaults filled in. */
+export interface RetrySettings {
+  attempts: number;
+  initialDelay: number;
+  maxDelay: number;
+  onRetry?: (attempt: number, error: Error) => void;
+}
+
+/**
+ * Statuses by reason phrase, for errors that only carry the status text.
+ * Only statuses worth retrying are listed.
+ */
+const RETRYABLE_STATUS_BY_TEXT: Record<string, number> = {
+  'Request Timeout': 408,
+  'Too Many Requests': 429,
+  'Internal Server Error': 500,
+  'Bad Gateway': 502,
+  'Service Unavailable': 503,
+  'Gateway Timeout': 504,
+};
+
+/**
+ * The HTTP status of a failed request, when known: a numeric `status` on
+ * the error, or the status text in @pillar-ai/sdk's "MCP streaming request
+ * failed: <status text> - <body>" message. HTTP/2 responses have no status
+ * text, so their status is unknown.
+ */
+export function errorStatus(err: unknown): number | undefined {
+  if (!(err instanceof Error)) return undefined;
+  if ('status' in err && typeof err.status === 'number') return err.status;
+  const match = /^MCP streaming request failed: (.*?) - /s.exec(err.message);
+  return match ? RETRYABLE_STATUS_BY_TEXT[match[1].trim()] : undefined;
+}
+
+/**
+ * Network failures and server-side errors worth retrying: fetch's
+ * `TypeError`, and failed requests with a status of 408, 429 or 5xx.
+ */
+export function isTransientError(err: unknown): boolean {
+  if (err instanceof TypeError) return true;
+  const status = errorStatus(err);
+  return status !== undefined && (status === 408 || status === 429 || status >= 500);
+}
+
+/** Wait before retry `attempt` (0-based), with jitter. Rejects when aborted. */
+export function waitForRetry(
+  attempt: number,
+  retry: { initialDelay: number; maxDelay: number },
+  signal: AbortSignal,
+): Promise<void> {
+  const delay = Math.min(retry.initialDelay * 2 ** attempt, retry.maxDelay);
+  // Spread out reconnects from clients that dropped at the same time
+  const jittered = delay / 2 + (Math.random() * delay) / 2;
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, jittered);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Wraps the token handler of a resumed stream so text that was already
+ * received isn't shown twice. Works whether the server replays the answer
+ * from the start or sends only the rest.
+ */
+export function skipReceived(
+  received: string,
+  emit: (token: string) => void,
+): (token: string) => void {
+  let replayed = '';
+  let replaying = received.length > 0;
+
+  return (token) => {
+    if (!replaying) {
+      emit(token);
+      return;
+    }
+    replayed += token;
+    if (received.startsWith(replayed)) return;
+    replaying = false;
+    emit(replayed.startsWith(received) ? replayed.slice(received.length) : replayed);
+  };
+}
+
+export interface WithRetryOptions<T> {
+  /** Send the message. */
+  send: () => Promise<T>;
+  /** Continue the answer the agent had started. */
+  resume: () => Promise<T>;
+  /** Whether the agent has started answering, so a retry resumes instead of resending. */
+  hasStarted: () => boolean;
+  /** `null` disables retries. */
+  retry: RetrySettings | null;
+  signal: AbortSignal;
+  /** Checked before each retry, e.g. whether the browser is online. */
+  canRetry?: () => boolean;
+}
+
+/**
+ * Run `send`, retrying transient failures with exponential backoff. Once
+ * the agent has started answering, retries call `resume` instead.
+ */
+export async function withRetry<T>(options: WithRetryOptions<T>): Promise<T> {
+  const { retry, signal } = options;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return attempt === 0 || !options.hasStarted()
+        ? await options.send()
+        : await options.resume();
+    } catch (err) {
+      if (
+        signal.aborted ||
+        !retry ||
+        options.canRetry?.() === false ||
+        attempt >= retry.attempts ||
+        !isTransientError(err)
+      ) {
+        throw err;
+      }
+      retry.onRetry?.(attempt + 1, err as Error);
+      await waitForRetry(attempt, retry, signal);
+    }
+  }
+}
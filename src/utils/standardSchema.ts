@@ -0,0 +1,163 @@
+/**
+ * Standard Schema support for tool input schemas
+ *
+ * Lets tools declare `inputSchema` with Zod, Valibot, ArkType or any other
+ * library implementing Standard Schema (https://standardschema.dev) instead
+ * of hand-written JSON Schema. The schema is converted to JSON Schema for
+ * the agent and used to validate the AI's arguments before `execute` runs.
+ *
+ * The types below mirror the Standard Schema spec structurally, so no
+ * validation library is a dependency of this package.
+ */
+
+import type { ExecutableToolSchema } from "@pillar-ai/sdk";
+
+/** A single validation issue reported by a Standard Schema. */
+export interface StandardSchemaIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+/** Structural copy of `StandardSchemaV1` from the Standard Schema spec. */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+    /** Standard JSON Schema extension (Zod 4.2+, and others). */
+    readonly jsonSchema?: {
+      readonly input: (options: { target: string }) => Record<string, unknown>;
+    };
+  };
+}
+
+/** Output type of a Standard Schema (what `execute` receives). */
+export type InferSchemaOutput<TSchema extends StandardSchemaV1> = NonNullable<
+  TSchema["~standard"]["types"]
+>["output"];
+
+/** The JSON Schema shape the core SDK expects for `inputSchema`. */
+export type JSONInputSchema = NonNullable<ExecutableToolSchema["inputSchema"]>;
+
+/**
+ * Input schema accepted by React tools: hand-written JSON Schema or any
+ * Standard Schema.
+ */
+export type ToolInputSchema<TInput = Record<string, unknown>> =
+  | JSONInputSchema
+  | StandardSchemaV1<unknown, TInput>;
+
+/**
+ * Check whether a value implements Standard Schema.
+ */
+export function isStandardSchema(value: unknown): value is StandardSchemaV1 {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "~standard" in value &&
+    typeof (value as StandardSchemaV1)["~standard"]?.validate === "function"
+  );
+}
+
+/**
+ * Convert a tool input schema to the JSON Schema the core SDK registers.
+ * JSON Schema input is returned unchanged.
+ *
+ * Uses the Standard JSON Schema extension when the library provides it,
+ * then a `toJSONSchema()` / `toJsonSchema()` method. Falls back to an
+ * open object schema (with a warning) when neither is available.
+ */
+export function toJSONInputSchema(
+  schema: ToolInputSchema<unknown> | undefined,
+  toolName: string
+): JSONInputSchema | undefined {
+  if (!schema || !isStandardSchema(schema)) {
+    return schema as JSONInputSchema | undefined;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const lib = schema as any;
+  let json: Record<string, unknown> | undefined;
+  try {
+    if (schema["~standard"].jsonSchema) {
+      json = schema["~standard"].jsonSchema.input({ target: "draft-07" });
+    } else if (typeof lib.toJSONSchema === "function") {
+      json = lib.toJSONSchema();
+    } else if (typeof lib.toJsonSchema === "function") {
+      json = lib.toJsonSchema();
+    }
+  } catch (err) {
+    console.warn(
+      `[Pillar] Could not convert inputSchema for tool "${toolName}" to JSON Schema:`,
+      err
+    );
+  }
+
+  if (!json || json.type !== "object") {
+    console.warn(
+      `[Pillar] Tool "${toolName}" has a ${schema["~standard"].vendor} inputSchema that ` +
+        `could not be converted to a JSON Schema object. The agent will see an open object schema.`
+    );
+    return { type: "object", properties: {} };
+  }
+
+  const { $schema: _$schema, ...rest } = json;
+  return rest as JSONInputSchema;
+}
+
+function formatIssuePath(issue: StandardSchemaIssue): string {
+  if (!issue.path?.length) return "";
+  return issue.path
+    .map((segment) =>
+      typeof segment === "object" ? String(segment.key) : String(segment)
+    )
+    .join(".");
+}
+
+/**
+ * Wrap an `execute` handler so the AI's arguments are validated against a
+ * Standard Schema first. Invalid arguments never reach `execute`; instead a
+ * structured `validation_error` result is returned for the agent, the same
+ * way render failures are reported as `render_error`.
+ *
+ * With a JSON Schema (or no schema) the handler is returned unchanged.
+ */
+export function withInputValidation<TInput, TArgs extends unknown[], TResult>(
+  toolName: string,
+  schema: ToolInputSchema<unknown> | undefined,
+  execute: (input: TInput, ...rest: TArgs) => TResult | Promise<TResult>
+): (input: TInput, ...rest: TArgs) => Promise<TResult | Record<string, unknown>> {
+  return async (input, ...rest) => {
+    if (!isStandardSchema(schema)) {
+      return execute(input, ...rest);
+    }
+
+    const result = await schema["~standard"].validate(input ?? {});
+    if (result.issues) {
+      const issues = result.issues.map((issue) => ({
+        path: formatIssuePath(issue),
+        message: issue.message,
+      }));
+      return {
+        success: false,
+        error:
+          `Invalid arguments for tool "${toolName}": ` +
+          issues
+            .map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message))
+            .join("; "),
+        errorType: "validation_error",
+        issues,
+      };
+    }
+
+    // Pass the parsed value so transforms and defaults apply
+    return execute(result.value as TInput, ...rest);
+  };
+}
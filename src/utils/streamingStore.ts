@@ -0,0 +1,59 @@
+/**
+ * Streaming message store
+ *
+ * Holds the live content of assistant messages while they stream, so a
+ * single message bubble can subscribe with `useStreamingMessage` and
+ * re-render on every token without re-rendering the whole message list.
+ */
+
+/** Live state of a message that is (or just finished) streaming. */
+export interface PillarStreamingMessage {
+  id: string;
+  /** Everything received so far. */
+  content: string;
+  /** False once the response has finished or was stopped. */
+  isStreaming: boolean;
+}
+
+export interface StreamingStore {
+  publish: (message: PillarStreamingMessage) => void;
+  remove: (id: string) => void;
+  subscribe: (id: string, listener: () => void) => () => void;
+  get: (id: string) => PillarStreamingMessage | undefined;
+}
+
+export function createStreamingStore(): StreamingStore {
+  const messages = new Map<string, PillarStreamingMessage>();
+  const listeners = new Map<string, Set<() => void>>();
+
+  const emit = (id: string) => {
+    listeners.get(id)?.forEach((listener) => listener());
+  };
+
+  return {
+    publish: (message) => {
+      messages.set(message.id, message);
+      emit(message.id);
+    },
+    remove: (id) => {
+      if (messages.delete(id)) {
+        emit(id);
+      }
+    },
+    subscribe: (id, listener) => {
+      let set = listeners.get(id);
+      if (!set) {
+        set = new Set();
+        listeners.set(id, set);
+      }
+      set.add(listener);
+      return () => {
+        set!.delete(listener);
+        if (set!.size === 0) {
+          listeners.delete(id);
+        }
+      };
+    },
+    get: (id) => messages.get(id),
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Suggestion store
+ *
+ * Holds the conversation starters registered with `usePillarSuggestions`
+ * and decides which of them apply to the current page and readable
+ * context.
+ */
+
+/** A clickable prompt, shown as a starter or as a follow-up to an answer. */
+export interface PillarSuggestion {
+  /** Stable ID for React keys (default: the text). */
+  id?: string;
+  /** The message sent when the suggestion is picked. */
+  text: string;
+  /** Shorter text for the button (default: `text`). */
+  label?: string;
+  /**
+   * Only show on matching routes: an exact path ("/billing"), one segment
+   * per `*` ("/projects/*") or any depth after `**` ("/docs/**").
+   */
+  path?: string;
+  /**
+   * Only show while a readable with this key is registered with
+   * `usePillarReadable`, e.g. "selected_rows".
+   */
+  readable?: string;
+}
+
+export interface SuggestionStore {
+  /** Register suggestions; returns a function that removes them. */
+  add: (suggestions: PillarSuggestion[]) => () => void;
+  subscribe: (listener: () => void) => () => void;
+  /** Registered suggestions in registration order. Stable between changes. */
+  getAll: () => PillarSuggestion[];
+}
+
+function trimSlash(path: string): string {
+  return path.length > 1 && path.endsWith("/") ? path.slice(0, -1) : path;
+}
+
+/** Whether `pathname` matches a suggestion's `path` pattern. */
+export function matchesPath(pattern: string, pathname: string): boolean {
+  const patternParts = trimSlash(pattern).split("/");
+  const pathParts = trimSlash(pathname).split("/");
+
+  for (let i = 0; i < patternParts.length; i++) {
+    const part = patternParts[i];
+    if (part === "**") return true;
+    if (i >= pathParts.length) return false;
+    if (part !== "*" && part !== pathParts[i]) return false;
+  }
+
+  return patternParts.length === pathParts.length;
+}
+
+export function createSuggestionStore(): SuggestionStore {
+  const groups = new Set<PillarSuggestion[]>();
+  const listeners = new Set<() => void>();
+  let all: PillarSuggestion[] = [];
+
+  const emit = () => {
+    all = Array.from(groups).flat();
+    listeners.forEach((listener) => listener());
+  };
+
+  return {
+    add: (suggestions) => {
+      // A fresh array per registration, so identical lists from two
+      // components are removed independently
+      const group = [...suggestions];
+      groups.add(group);
+      emit();
+      return () => {
+        if (groups.delete(group)) {
+          emit();
+        }
+      };
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getAll: () => all,
+  };
+}
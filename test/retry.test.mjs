@@ -0,0 +1,170 @@
+/**
+ * Retry and resume loop of usePillarChat, against a local mock of the
+ * agent's streaming endpoint. Run with `npm test`.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import { errorStatus, skipReceived, withRetry } from '../node_modules/.cache/pillar-test/retry.js';
+
+const FAST_RETRY = { attempts: 3, initialDelay: 1, maxDelay: 5 };
+
+/** Replies with an error status. */
+const fail = (status) => (res) => {
+  res.writeHead(status);
+  res.end('{"error":"mock"}');
+};
+
+/** Streams the tokens, then closes the connection mid-answer if `drop` is set. */
+const stream =
+  (tokens, { drop = false } = {}) =>
+  async (res) => {
+    res.writeHead(200, { 'Content-Type': 'text/plain' });
+    for (const token of tokens) {
+      res.write(token);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    if (drop) res.socket.destroy();
+    else res.end();
+  };
+
+/** Starts a server that answers each request with the next scripted reply. */
+async function mockServer(replies) {
+  const requests = [];
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      requests.push(JSON.parse(body));
+      const reply = replies[Math.min(requests.length, replies.length) - 1];
+      void reply(res);
+    });
+  });
+  await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${server.address().port}/`,
+    requests,
+    close: () =>
+      new Promise((resolve) => {
+        server.closeAllConnections();
+        server.close(resolve);
+      }),
+  };
+}
+
+/** Streams a reply the way the SDK does, and fails with the SDK's error message. */
+async function request(url, payload, onToken, signal) {
+  const res = await fetch(url, { method: 'POST', body: JSON.stringify(payload), signal });
+  if (!res.ok) {
+    throw new Error(`MCP streaming request failed: ${res.statusText} - ${await res.text()}`);
+  }
+  const decoder = new TextDecoder();
+  for await (const chunk of res.body) {
+    onToken(decoder.decode(chunk, { stream: true }));
+  }
+}
+
+/** Sends "hi" with retries, tracking the shown text like usePillarChat. */
+async function send(server, { retry = FAST_RETRY, signal = new AbortController().signal } = {}) {
+  let text = '';
+  const append = (token) => (text += token);
+  let onToken = append;
+  const retries = [];
+
+  await withRetry({
+    send: () => request(server.url, { message: 'hi' }, (t) => onToken(t), signal),
+    resume: () => {
+      onToken = skipReceived(text, append);
+      return request(server.url, { message: '', resume: true }, (t) => onToken(t), signal);
+    },
+    hasStarted: () => text.length > 0,
+    retry: { ...retry, onRetry: (attempt, error) => retries.push({ attempt, error }) },
+    signal,
+  });
+
+  return { text, retries };
+}
+
+test('sends the message again after a 503', async () => {
+  const server = await mockServer([fail(503), stream(['Hello ', 'world'])]);
+  try {
+    const { text, retries } = await send(server);
+    assert.equal(text, 'Hello world');
+    assert.deepEqual(server.requests, [{ message: 'hi' }, { message: 'hi' }]);
+    assert.equal(retries.length, 1);
+    assert.equal(errorStatus(retries[0].error), 503);
+  } finally {
+    await server.close();
+  }
+});
+
+test('retries 408 and 429', async () => {
+  const server = await mockServer([fail(408), fail(429), stream(['ok'])]);
+  try {
+    const { text } = await send(server);
+    assert.equal(text, 'ok');
+    assert.equal(server.requests.length, 3);
+  } finally {
+    await server.close();
+  }
+});
+
+test('resumes a dropped stream without repeating text', async () => {
+  const server = await mockServer([
+    stream(['Hello ', 'wor'], { drop: true }),
+    // The server replays the answer from the start
+    stream(['Hello ', 'world']),
+  ]);
+  try {
+    const { text } = await send(server);
+    assert.equal(text, 'Hello world');
+    assert.deepEqual(server.requests, [{ message: 'hi' }, { message: '', resume: true }]);
+  } finally {
+    await server.close();
+  }
+});
+
+test('does not retry a 400', async () => {
+  const server = await mockServer([fail(400), stream(['unreachable'])]);
+  try {
+    await assert.rejects(send(server), /MCP streaming request failed: Bad Request/);
+    assert.equal(server.requests.length, 1);
+  } finally {
+    await server.close();
+  }
+});
+
+test('gives up after the configured attempts', async () => {
+  const server = await mockServer([fail(502)]);
+  try {
+    await assert.rejects(send(server), /Bad Gateway/);
+    assert.equal(server.requests.length, 1 + FAST_RETRY.attempts);
+  } finally {
+    await server.close();
+  }
+});
+
+test('stops waiting for a retry when aborted', async () => {
+  const server = await mockServer([fail(503), stream(['unreachable'])]);
+  const controller = new AbortController();
+  try {
+    const sent = send(server, {
+      retry: { attempts: 3, initialDelay: 60_000, maxDelay: 60_000 },
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(), 50);
+    await assert.rejects(sent, { name: 'AbortError' });
+    assert.equal(server.requests.length, 1);
+  } finally {
+    await server.close();
+  }
+});
+
+test('treats a failure without status text as not retryable', () => {
+  // HTTP/2 responses have an empty status text
+  assert.equal(errorStatus(new Error('MCP streaming request failed:  - {}')), undefined);
+  assert.equal(errorStatus(new Error('MCP streaming request failed: Gateway Timeout - ')), 504);
+  assert.equal(errorStatus(Object.assign(new Error('x'), { status: 429 })), 429);
+});